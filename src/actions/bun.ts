@@ -2,16 +2,25 @@
  * Bun workspace action for turborepo-style parallel script execution.
  */
 
-import { $ } from "bun";
+import { formatAffectedReason } from "../affected";
+import { computeTaskHash } from "../cache/hash";
+import { type TaskCache, withCache } from "../cache/task-cache";
+import { formatTimeout } from "../formatting";
 import {
 	buildDependencyGraph,
 	discoverWorkspaces,
 	resolveTaskDependencies,
+	selectTaskNodes,
 	type TaskNode,
 	topologicalSort,
 } from "../npm-workspace";
+import { BUN_COMMAND_ENV, bunCommand, runProcess } from "../process";
 import type { NestedTask, ProgressPrinter } from "../progress-printer";
+import { withRetry } from "../retry";
+import { type ResourcePool, runTaskGraph } from "../scheduler";
+import { BUILTIN_ACTION_SCHEMAS } from "../schema";
 import type { BunAction } from "../types";
+import type { ActionDefinition, ActionGraphContext } from "./registry";
 import { type ActionResult, withTiming } from "./types";
 
 /**
@@ -19,11 +28,26 @@ import { type ActionResult, withTiming } from "./types";
  */
 export type BunActionOptions = {
 	readonly verbose: boolean;
+	/** Workspace root packages are discovered from */
 	readonly gitRoot: string;
 	/** Step name (for printer updates) */
 	readonly stepName?: string;
 	/** Optional progress printer for nested task display */
 	readonly printer?: ProgressPrinter;
+	/** Task cache; tasks are cached when the action declares `inputs` */
+	readonly cache?: TaskCache;
+	/** Hashes of upstream steps, folded into every task hash */
+	readonly upstreamHashes?: readonly string[];
+	/** Restrict execution to these packages (e.g. from `--affected`) */
+	readonly packageSelection?: ReadonlySet<string>;
+	/** Run-wide slot pool each task acquires from before starting */
+	readonly pool?: ResourcePool;
+	/** Slots each task takes from the pool (default: 1) */
+	readonly taskWeight?: number;
+	/** Stops starting tasks and terminates running ones when aborted */
+	readonly signal?: AbortSignal;
+	/** Variables added to the inherited environment of every task */
+	readonly env?: Readonly<Record<string, string>>;
 };
 
 /**
@@ -35,61 +59,54 @@ export type TaskResult = ActionResult & {
 };
 
 /**
- * Runs a single script in a package with optional timeout.
+ * Runs a single script in a package with the action's timeout and retry
+ * policy. On timeout the script's whole process tree is terminated.
  */
 async function runPackageScript(
 	node: TaskNode,
-	timeout: number | undefined,
-	verbose: boolean,
+	action: BunAction,
+	options: BunActionOptions,
+	onRetry: (attempt: number, attempts: number) => void,
 ): Promise<TaskResult> {
+	const { verbose, signal } = options;
 	const start = performance.now();
-
-	const runScript = async (): Promise<TaskResult> => {
-		const result = await $`bun run ${node.script}`
-			.cwd(node.packagePath)
-			.quiet()
-			.nothrow();
-
-		const output = result.text();
-		const success = result.exitCode === 0;
-		const duration = Math.round(performance.now() - start);
-
-		if (verbose && output.trim()) {
-			console.log(`[${node.packageName}] ${output}`);
-		}
-
-		return {
-			success,
-			output,
-			duration,
-			packageName: node.packageName,
-			script: node.script,
-		};
-	};
-
-	try {
-		if (timeout !== undefined && timeout > 0) {
-			const timeoutPromise = new Promise<TaskResult>((_, reject) => {
-				setTimeout(
-					() => reject(new Error(`Timeout after ${timeout}ms`)),
-					timeout,
-				);
+	const result = await withRetry(
+		action.retry,
+		async () => {
+			const attempt = await runProcess(bunCommand(["run", node.script]), {
+				cwd: node.packagePath,
+				env: { ...BUN_COMMAND_ENV, ...options.env },
+				timeout: action.timeout,
+				signal,
 			});
-			return await Promise.race([runScript(), timeoutPromise]);
-		}
-		return await runScript();
-	} catch (e) {
-		const duration = Math.round(performance.now() - start);
-		const message = e instanceof Error ? e.message : String(e);
-
-		return {
-			success: false,
-			output: message,
-			duration,
-			packageName: node.packageName,
-			script: node.script,
-		};
-	}
+			if (verbose && attempt.output.trim()) {
+				console.log(`[${node.packageName}] ${attempt.output}`);
+			}
+			return {
+				...attempt,
+				success: !attempt.timedOut && attempt.exitCode === 0,
+			};
+		},
+		{ signal, onRetry },
+	);
+	const duration = Math.round(performance.now() - start);
+
+	return {
+		success: result.success,
+		output: result.timedOut
+			? [result.output.trimEnd(), formatTimeout(action.timeout ?? 0)]
+					.filter(Boolean)
+					.join("\n")
+			: result.output,
+		duration,
+		timedOut: result.timedOut || undefined,
+		timeout: result.timedOut ? action.timeout : undefined,
+		cancelled: result.cancelled || undefined,
+		exitCode: result.exitCode,
+		attempts: action.retry ? result.attempts : undefined,
+		packageName: node.packageName,
+		script: node.script,
+	};
 }
 
 /**
@@ -104,7 +121,7 @@ export async function runBunAction(
 	options: BunActionOptions,
 ): Promise<ActionResult> {
 	return withTiming(async () => {
-		const { printer, stepName } = options;
+		const { printer, stepName, pool } = options;
 		const logs: string[] = [];
 
 		// Discover workspace packages
@@ -132,16 +149,23 @@ export async function runBunAction(
 		// Build dependency graph
 		const dependencyGraph = buildDependencyGraph(packages);
 
-		// Resolve task dependencies
-		const allNodes = resolveTaskDependencies(
-			action.script,
-			action.dependsOn ?? [],
-			packages,
-			dependencyGraph,
+		// Resolve task dependencies, limited to the selected packages
+		const allNodes = selectTaskNodes(
+			resolveTaskDependencies(
+				action.script,
+				action.dependsOn ?? [],
+				packages,
+				dependencyGraph,
+			),
+			options.packageSelection,
 		);
 
-		// Topologically sort for execution order
-		const layers = topologicalSort(allNodes);
+		if (allNodes.length === 0) {
+			return {
+				success: true,
+				output: `No selected packages have script "${action.script}"`,
+			};
+		}
 
 		// Set up nested tasks in printer if available
 		if (printer && stepName) {
@@ -152,72 +176,217 @@ export async function runBunAction(
 			printer.setNested(stepName, nestedTasks);
 		}
 
-		let totalSuccess = true;
-		const results: TaskResult[] = [];
-
-		// Execute layer by layer (parallel within each layer)
-		for (const layer of layers) {
-			if (!layer || layer.length === 0) continue;
+		const packageMap = new Map(packages.map((p) => [p.name, p]));
+		const taskHashes = new Map<string, string>();
+
+		// Resolve the cache target for a task (dependencies are hashed first);
+		// the step environment is hashed like for other steps
+		const getCacheTarget = async (node: TaskNode) => {
+			if (!options.cache || !action.inputs) return undefined;
+			const hash = await computeTaskHash({
+				definition: {
+					packageName: node.packageName,
+					script: node.script,
+					command: packageMap.get(node.packageName)?.scripts[node.script],
+					dependsOn: action.dependsOn,
+					env: options.env,
+				},
+				cwd: node.packagePath,
+				inputs: action.inputs,
+				upstream: [
+					...(options.upstreamHashes ?? []),
+					...node.dependencies.flatMap((d) => taskHashes.get(d) ?? []),
+				],
+			});
+			taskHashes.set(`${node.packageName}#${node.script}`, hash);
+			return {
+				cache: options.cache,
+				hash,
+				cwd: node.packagePath,
+				outputs: action.outputs ?? [],
+			};
+		};
 
-			// Mark as running in printer
+		const updateTask = (
+			node: TaskNode,
+			update: Partial<
+				Pick<NestedTask, "status" | "duration" | "timeout" | "retry">
+			>,
+		) => {
 			if (printer && stepName) {
-				for (const node of layer) {
-					printer.updateNested(stepName, `${node.packageName}#${node.script}`, {
-						status: "running",
-					});
-				}
+				printer.updateNested(
+					stepName,
+					`${node.packageName}#${node.script}`,
+					update,
+				);
 			}
+		};
 
-			// Run all tasks in this layer in parallel
-			const layerPromises = layer.map(async (node) => {
-				const result = await runPackageScript(
-					node,
-					action.timeout,
+		// Start each task as soon as its own dependencies complete and a slot is free
+		const { results, skipped } = await runTaskGraph(allNodes, {
+			signal: options.signal,
+			acquire: pool
+				? () => pool.acquire({ slots: options.taskWeight ?? 1, mutexes: [] })
+				: undefined,
+			run: async (node): Promise<TaskResult> => {
+				const id = `${node.packageName}#${node.script}`;
+				updateTask(node, { status: "running" });
+
+				const result = await withCache(
+					await getCacheTarget(node).catch(() => undefined),
 					options.verbose,
+					() =>
+						runPackageScript(node, action, options, (attempt, attempts) =>
+							updateTask(node, { retry: { attempt, attempts } }),
+						),
 				);
 
-				// Update printer with result
-				if (printer && stepName) {
-					printer.updateNested(stepName, `${node.packageName}#${node.script}`, {
-						status: result.success ? "done" : "failed",
-						duration: result.duration,
-					});
-				}
-
-				return result;
-			});
-
-			const layerResults = await Promise.all(layerPromises);
-
-			for (const result of layerResults) {
-				results.push(result);
-
-				const status = result.success ? "✓" : "✗";
-				const duration = `${result.duration}ms`;
-				logs.push(
-					`  ${status} ${result.packageName}#${result.script} (${duration})`,
-				);
-
-				if (!result.success) {
-					totalSuccess = false;
+				updateTask(node, {
+					timeout: result.timeout,
+					status: result.cached
+						? "cached"
+						: result.success
+							? "done"
+							: result.cancelled
+								? "cancelled"
+								: result.timedOut
+									? "timeout"
+									: "failed",
+					duration: result.duration,
+				});
+
+				const status = result.cached ? "↺" : result.success ? "✓" : "✗";
+				const attemptsNote =
+					(result.attempts ?? 1) > 1 ? `, ${result.attempts} attempts` : "";
+				logs.push(`  ${status} ${id} (${result.duration}ms${attemptsNote})`);
+				if (result.cancelled) {
+					logs.push("    Cancelled");
+				} else if (result.timedOut) {
+					logs.push(`    Error: ${formatTimeout(action.timeout ?? 0)}`);
+				} else if (!result.success) {
 					logs.push(`    Error: ${result.output.split("\n")[0]}`);
 				}
-			}
 
-			// If any task in this layer failed, skip remaining layers
-			if (!totalSuccess) {
-				break;
-			}
+				return {
+					...result,
+					packageName: node.packageName,
+					script: node.script,
+				};
+			},
+		});
+
+		for (const node of skipped) {
+			updateTask(node, { status: "skipped" });
 		}
 
+		const totalSuccess = results.every((r) => r.success);
 		const passed = results.filter((r) => r.success).length;
 		const failed = results.filter((r) => !r.success).length;
+		const cached = results.filter((r) => r.cached).length;
+		const cachedNote = cached > 0 ? ` (${cached} cached)` : "";
+		const flakyTasks = results
+			.filter((r) => r.success && (r.attempts ?? 1) > 1)
+			.map((r) => `${r.packageName}#${r.script}`);
 
 		return {
 			success: totalSuccess,
 			output: totalSuccess
-				? `${passed} packages passed`
-				: `${logs.join("\n")}\n\nCompleted: ${passed} passed, ${failed} failed`,
+				? `${passed} packages passed${cachedNote}`
+				: `${logs.join("\n")}\n\nCompleted: ${passed} passed, ${failed} failed, ${skipped.length} skipped`,
+			cached: totalSuccess && cached === allNodes.length,
+			timedOut: results.some((r) => r.timedOut) || undefined,
+			timeout: results.find((r) => r.timedOut)?.timeout,
+			// Only cancelled when the abort stopped a task or, with no failed
+			// task to blame, kept one from starting
+			cancelled:
+				results.some((r) => r.cancelled) ||
+				(options.signal?.aborted &&
+					skipped.length > 0 &&
+					results.every((r) => r.success)) ||
+				undefined,
+			flakyTasks: flakyTasks.length > 0 ? flakyTasks : undefined,
+			hash:
+				taskHashes.size > 0
+					? new Bun.CryptoHasher("sha256")
+							.update([...taskHashes.values()].sort().join("\0"))
+							.digest("hex")
+							.slice(0, 16)
+					: undefined,
 		};
 	});
 }
+
+/**
+ * Renders the workspace tasks a `bun` step runs, layer by layer.
+ */
+async function renderBunGraph(
+	ctx: ActionGraphContext<BunAction>,
+): Promise<string[]> {
+	const { options: action, c, step, selection, affected } = ctx;
+	let packages: Awaited<ReturnType<typeof discoverWorkspaces>>;
+	try {
+		packages = await discoverWorkspaces(ctx.gitRoot);
+	} catch {
+		// Silently skip if workspace discovery fails
+		return [];
+	}
+	if (!packages.some((p) => action.script in p.scripts)) return [];
+
+	const nodes = selectTaskNodes(
+		resolveTaskDependencies(
+			action.script,
+			action.dependsOn ?? [],
+			packages,
+			buildDependencyGraph(packages),
+		),
+		selection,
+	);
+	const lines = [c("dim", `       └─ ${step.name} (bun):`)];
+	topologicalSort(nodes).forEach((taskLayer, i) => {
+		const taskNames = taskLayer
+			.map((n) => c("yellow", `${n.packageName}#${n.script}`))
+			.join(c("dim", " | "));
+		const taskParallel = taskLayer.length > 1 ? c("dim", " (parallel)") : "";
+		lines.push(`          ${c("dim", `[${i}]`)} ${taskNames}${taskParallel}`);
+	});
+	if (selection && nodes.length === 0) {
+		lines.push(c("dim", "          (no selected packages)"));
+	}
+	if (affected) {
+		for (const node of nodes) {
+			const reason = affected.packages.get(node.packageName);
+			if (!reason) continue;
+			lines.push(
+				c(
+					"dim",
+					`          ${node.packageName} ← ${formatAffectedReason(reason)}`,
+				),
+			);
+		}
+	}
+	return lines;
+}
+
+/**
+ * The `bun` action. Each workspace task takes the step's weight in slots.
+ */
+export const bunAction: ActionDefinition<BunAction> = {
+	key: "bun",
+	schema: BUILTIN_ACTION_SCHEMAS.bun,
+	nested: true,
+	run: (ctx, signal) =>
+		runBunAction(ctx.options, {
+			gitRoot: ctx.cwd ?? ctx.run.gitRoot,
+			env: ctx.env,
+			verbose: ctx.run.verbose,
+			stepName: ctx.step.name,
+			printer: ctx.run.printer,
+			cache: ctx.run.cache,
+			upstreamHashes: ctx.upstreamHashes,
+			packageSelection: ctx.run.packageSelection,
+			pool: ctx.run.pool,
+			taskWeight: ctx.weight,
+			signal,
+		}),
+	graph: renderBunGraph,
+};
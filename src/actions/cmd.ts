@@ -2,7 +2,12 @@
  * Command execution action.
  */
 
-import { $ } from "bun";
+import { type CacheTarget, withCache } from "../cache/task-cache";
+import { formatTimeout } from "../formatting";
+import { BUN_COMMAND_ENV, bunCommand, runProcess } from "../process";
+import { BUILTIN_ACTION_SCHEMAS } from "../schema";
+import { collectStepOutputs, OUTPUT_ENV_VAR } from "../step-outputs";
+import type { ActionDefinition } from "./registry";
 import { type ActionResult, withTiming } from "./types";
 
 /**
@@ -10,11 +15,25 @@ import { type ActionResult, withTiming } from "./types";
  */
 export type CmdActionOptions = {
 	readonly verbose: boolean;
+	/** Cache target; when set, cached output is replayed instead of running */
+	readonly cache?: CacheTarget;
+	/** Timeout in milliseconds; the command's process tree is killed when exceeded */
+	readonly timeout?: number;
+	/** Terminates the command's process tree when aborted */
+	readonly signal?: AbortSignal;
+	/** Working directory (default: process cwd) */
+	readonly cwd?: string;
+	/** Variables added to the inherited environment */
+	readonly env?: Readonly<Record<string, string>>;
 };
 
 /**
  * Runs a shell command and returns the result.
  *
+ * The command runs through `bun exec` (Bun shell syntax) of the running Bun
+ * executable, in its own process group so a timeout terminates everything
+ * it spawned. Values it appends to `$OT_OUTPUT` are returned as `outputs`.
+ *
  * @param cmd - The command string to execute
  * @param options - Action options
  * @returns Action result with success, output, and duration
@@ -23,15 +42,66 @@ export async function runCmdAction(
 	cmd: string,
 	options: CmdActionOptions,
 ): Promise<ActionResult> {
-	return withTiming(async () => {
-		const result = await $`${{ raw: cmd }}`.quiet().nothrow();
-		const output = result.text();
-		const success = result.exitCode === 0;
+	return withCache(options.cache, options.verbose, () =>
+		withTiming(async () => {
+			const { result, outputs } = await collectStepOutputs((file) =>
+				runProcess(bunCommand(["exec", cmd]), {
+					cwd: options.cwd,
+					env: { ...BUN_COMMAND_ENV, ...options.env, [OUTPUT_ENV_VAR]: file },
+					timeout: options.timeout,
+					signal: options.signal,
+				}),
+			);
+
+			if (options.verbose && result.output.trim()) {
+				console.log(result.output);
+			}
 
-		if (options.verbose && output.trim()) {
-			console.log(output);
-		}
+			if (result.cancelled) {
+				return {
+					success: false,
+					output: result.output,
+					cancelled: true,
+					outputs,
+				};
+			}
 
-		return { success, output };
-	});
+			if (result.timedOut) {
+				return {
+					success: false,
+					output: [result.output.trimEnd(), formatTimeout(options.timeout ?? 0)]
+						.filter(Boolean)
+						.join("\n"),
+					timedOut: true,
+					timeout: options.timeout,
+					outputs,
+				};
+			}
+
+			return {
+				success: result.exitCode === 0,
+				output: result.output,
+				exitCode: result.exitCode,
+				outputs,
+			};
+		}),
+	);
 }
+
+/**
+ * The `cmd` action: the step's `timeout` applies and its `inputs` make it
+ * cacheable.
+ */
+export const cmdAction: ActionDefinition<string> = {
+	key: "cmd",
+	schema: BUILTIN_ACTION_SCHEMAS.cmd,
+	run: async (ctx, signal) =>
+		runCmdAction(ctx.options, {
+			verbose: ctx.run.verbose,
+			cache: await ctx.getCacheTarget(),
+			cwd: ctx.cwd,
+			env: ctx.env,
+			timeout: ctx.step.timeout,
+			signal,
+		}),
+};
@@ -4,5 +4,7 @@
 
 export * from "./bun";
 export * from "./cmd";
+export * from "./registry";
 export * from "./types";
+export * from "./workflow";
 export * from "./worktree-cp";
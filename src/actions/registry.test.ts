@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import type { RunContext } from "../types";
+import {
+	type ActionContext,
+	defineAction,
+	getAction,
+	getActionKeys,
+	getStepAction,
+	registerAction,
+} from "./registry";
+
+describe("action registry", () => {
+	test("registers the built-in actions", () => {
+		expect(getActionKeys().slice(0, 4)).toEqual([
+			"cmd",
+			"worktree:cp",
+			"bun",
+			"workflow",
+		]);
+		expect(getAction("bun")?.nested).toBe(true);
+		expect(getAction("cmd")?.nested).toBeUndefined();
+	});
+
+	test("finds the action a step runs", () => {
+		const action = getStepAction({ name: "b", bun: { script: "build" } });
+		expect(action?.definition.key).toBe("bun");
+		expect(action?.options).toEqual({ script: "build" });
+		expect(getStepAction({ name: "none" })).toBeUndefined();
+	});
+
+	test("runs registered actions with their options", async () => {
+		const echo = defineAction({
+			key: "test:echo",
+			schema: z.object({ text: z.string() }),
+			run: async ({ options, step }) => {
+				if (!options.text) throw new Error("Nothing to echo");
+				return { success: true, output: `${step.name}: ${options.text}` };
+			},
+		});
+		registerAction(echo);
+		registerAction(echo);
+		const run = (options: unknown) =>
+			getAction("test:echo")?.run({
+				options,
+				step: { name: "greet" },
+				run: {} as RunContext,
+			} as ActionContext);
+
+		expect(await run({ text: "hi" })).toMatchObject({
+			success: true,
+			output: "greet: hi",
+		});
+		expect(await run({ text: "" })).toMatchObject({
+			success: false,
+			output: "Nothing to echo",
+		});
+	});
+
+	test("rejects taken and reserved keys", () => {
+		const action = (key: string) =>
+			defineAction({
+				key,
+				schema: z.string(),
+				run: async () => ({ success: true, output: "" }),
+			});
+		expect(() => registerAction(action("bun"))).toThrow(
+			'Action "bun" is already registered',
+		);
+		expect(() => registerAction(action("env"))).toThrow(
+			'Action key "env" is reserved for a step field',
+		);
+	});
+});
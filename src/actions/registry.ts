@@ -0,0 +1,206 @@
+/**
+ * Action registry.
+ *
+ * Every step runs exactly one action, selected by its step key (`cmd`,
+ * `bun`, ...) or by `uses`. An action definition owns the schema of its
+ * options, its runner and its `ot graph` rendering, so the run and graph
+ * handlers only dispatch. Plugins add definitions made with
+ * {@link defineAction}.
+ */
+
+import type { z } from "zod";
+import type { AffectedResult } from "../affected";
+import type { CacheTarget } from "../cache/task-cache";
+import type { StepEnv } from "../env";
+import { type ActionSchemas, RESERVED_STEP_KEYS } from "../schema";
+import type {
+	ColorFn,
+	RunContext,
+	Step,
+	Workflow,
+	WorkflowRef,
+} from "../types";
+import { bunAction } from "./bun";
+import { cmdAction } from "./cmd";
+import { type ActionResult, withTiming } from "./types";
+import { workflowAction } from "./workflow";
+import { worktreeCpAction } from "./worktree-cp";
+
+/**
+ * What an action runner gets.
+ */
+export type ActionContext<TOptions = unknown> = {
+	/** Options under the action key, parsed by the action's schema */
+	readonly options: TOptions;
+	readonly step: Step;
+	/** Run-wide facilities: printer, pool, cache, package selection, ... */
+	readonly run: RunContext;
+	/** Resolved `cwd`; undefined keeps the process cwd */
+	readonly cwd: string | undefined;
+	/** Resolved step environment */
+	readonly env: StepEnv;
+	/** Cache keys of the steps this one depends on */
+	readonly upstreamHashes: readonly string[];
+	/** Slots the step, or each of its nested tasks, takes from the pool */
+	readonly weight: number;
+	/** Cache target for the step's `inputs`, when caching is enabled */
+	readonly getCacheTarget: () => Promise<CacheTarget | undefined>;
+	/** Runs a workflow as nested steps of this one */
+	readonly runWorkflow: (ref: WorkflowRef) => Promise<ActionResult>;
+};
+
+/**
+ * What an action's `ot graph` rendering gets.
+ */
+export type ActionGraphContext<TOptions = unknown> = {
+	readonly options: TOptions;
+	readonly step: Step;
+	readonly c: ColorFn;
+	readonly gitRoot: string;
+	/** Packages selected with `--filter` or `--affected` */
+	readonly selection?: ReadonlySet<string>;
+	readonly affected?: AffectedResult;
+	/** All workflows of the config */
+	readonly workflows?: Readonly<Record<string, Workflow>>;
+};
+
+/**
+ * An action type.
+ */
+export type ActionDefinition<TOptions = unknown> = {
+	/** Step key that selects the action; also its `uses` name */
+	readonly key: string;
+	/** Schema of the options under the key */
+	readonly schema: z.ZodType<TOptions>;
+	/** Nested tasks take pool slots themselves, so the step holds none */
+	readonly nested?: boolean;
+	readonly run: (
+		ctx: ActionContext<TOptions>,
+		signal?: AbortSignal,
+	) => Promise<ActionResult>;
+	/** Lines shown below the step's layer in `ot graph` */
+	readonly graph?: (
+		ctx: ActionGraphContext<TOptions>,
+	) => Promise<readonly string[]>;
+};
+
+/**
+ * An action definition with the options a step passes to it.
+ */
+export type StepAction = {
+	readonly definition: ActionDefinition;
+	readonly options: unknown;
+};
+
+/**
+ * An action type as written by a plugin. The runner's duration is measured
+ * for it, and a thrown error fails the step with its message.
+ */
+export type ActionPlugin<TOptions> = Omit<ActionDefinition<TOptions>, "run"> & {
+	readonly run: (
+		ctx: ActionContext<TOptions>,
+		signal?: AbortSignal,
+	) => Promise<Omit<ActionResult, "duration">>;
+};
+
+/**
+ * Defines an action type, for the default export of a plugin.
+ *
+ * @example
+ * ```ts
+ * import { defineAction } from "openturbo";
+ * import { z } from "zod";
+ *
+ * export default defineAction({
+ *   key: "wait-for-port",
+ *   schema: z.object({ port: z.number() }),
+ *   run: async ({ options }, signal) => {
+ *     await waitForPort(options.port, signal);
+ *     return { success: true, output: `Port ${options.port} is open` };
+ *   },
+ * });
+ * ```
+ */
+export function defineAction<TOptions>(
+	action: ActionPlugin<TOptions>,
+): ActionDefinition<TOptions> {
+	return {
+		...action,
+		run: (ctx, signal) => withTiming(() => action.run(ctx, signal)),
+	};
+}
+
+/**
+ * Erases the options type so definitions can share one map.
+ */
+const erase = <TOptions>(definition: ActionDefinition<TOptions>) =>
+	definition as unknown as ActionDefinition;
+
+const actions = new Map<string, ActionDefinition>(
+	[
+		erase(cmdAction),
+		erase(worktreeCpAction),
+		erase(bunAction),
+		erase(workflowAction),
+	].map((definition) => [definition.key, definition]),
+);
+
+/**
+ * Adds an action type. Registering the same definition again does nothing,
+ * so a plugin can be listed by several configs.
+ *
+ * @throws Error if the key is a step field or taken by another action
+ */
+export function registerAction<TOptions>(
+	definition: ActionDefinition<TOptions>,
+): void {
+	const { key } = definition;
+	if (RESERVED_STEP_KEYS.includes(key)) {
+		throw new Error(`Action key "${key}" is reserved for a step field`);
+	}
+	const existing = actions.get(key);
+	if (existing === erase(definition)) return;
+	if (existing) {
+		throw new Error(`Action "${key}" is already registered`);
+	}
+	actions.set(key, erase(definition));
+}
+
+/**
+ * Looks up an action type by key.
+ */
+export function getAction(key: string): ActionDefinition | undefined {
+	return actions.get(key);
+}
+
+/**
+ * Lists the registered action keys, built-in actions first.
+ */
+export function getActionKeys(): string[] {
+	return [...actions.keys()];
+}
+
+/**
+ * Collects the options schemas of the registered actions, for
+ * `createConfigSchema`.
+ */
+export function getActionSchemas(): ActionSchemas {
+	return Object.fromEntries(
+		[...actions].map(([key, definition]) => [key, definition.schema]),
+	);
+}
+
+/**
+ * Finds the action a parsed step runs.
+ *
+ * @returns The first registered action whose key the step sets
+ */
+export function getStepAction(step: Step): StepAction | undefined {
+	const options: Readonly<Record<string, unknown>> = step;
+	for (const definition of actions.values()) {
+		if (options[definition.key] !== undefined) {
+			return { definition, options: options[definition.key] };
+		}
+	}
+	return undefined;
+}
@@ -9,6 +9,24 @@ export type ActionResult = {
 	readonly success: boolean;
 	readonly output: string;
 	readonly duration: number;
+	/** True when the result was replayed from the task cache */
+	readonly cached?: boolean;
+	/** Cache key of the task, when caching is enabled */
+	readonly hash?: string;
+	/** True when the action was killed for exceeding its timeout */
+	readonly timedOut?: boolean;
+	/** Timeout the action exceeded, in milliseconds */
+	readonly timeout?: number;
+	/** True when the action was interrupted by cancelling the run */
+	readonly cancelled?: boolean;
+	/** Exit code of the command, when it ran to completion */
+	readonly exitCode?: number | null;
+	/** Attempts made, when a retry policy applies */
+	readonly attempts?: number;
+	/** Workspace tasks that only passed after retrying */
+	readonly flakyTasks?: readonly string[];
+	/** Named values the action wrote to `$OT_OUTPUT` */
+	readonly outputs?: Readonly<Record<string, string>>;
 };
 
 /**
@@ -0,0 +1,32 @@
+/**
+ * Sub-workflow action.
+ */
+
+import { getSteps } from "../config";
+import { BUILTIN_ACTION_SCHEMAS } from "../schema";
+import { normalizeWorkflowRef } from "../subworkflow";
+import type { WorkflowRef } from "../types";
+import type { ActionDefinition } from "./registry";
+
+/**
+ * The `workflow` action. The run handler runs the referenced workflow, whose
+ * steps take pool slots themselves.
+ */
+export const workflowAction: ActionDefinition<WorkflowRef> = {
+	key: "workflow",
+	schema: BUILTIN_ACTION_SCHEMAS.workflow,
+	nested: true,
+	run: (ctx) => ctx.runWorkflow(ctx.options),
+	graph: async ({ options, c, step, workflows }) => {
+		const { name } = normalizeWorkflowRef(options);
+		const workflow = workflows?.[name];
+		const names = workflow
+			? getSteps(workflow)
+					.map((s) => c("yellow", s.name))
+					.join(c("dim", " | "))
+			: "";
+		return [
+			`       ${c("dim", `└─ ${step.name} (workflow: ${name}):`)} ${names}`,
+		];
+	},
+};
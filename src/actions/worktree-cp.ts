@@ -4,7 +4,10 @@
 
 import { cpSync, existsSync, mkdirSync, statSync } from "node:fs";
 import { dirname, join } from "node:path";
+import { GitUtil } from "../git-util";
+import { BUILTIN_ACTION_SCHEMAS } from "../schema";
 import type { WorktreeCpAction, WorktreeInfo } from "../types";
+import type { ActionDefinition } from "./registry";
 import { type ActionResult, withTiming } from "./types";
 
 /**
@@ -14,6 +17,8 @@ export type WorktreeCpActionOptions = {
 	readonly verbose: boolean;
 	readonly gitRoot: string;
 	readonly getWorktrees: () => Promise<readonly WorktreeInfo[]>;
+	/** Stops copying between files when aborted */
+	readonly signal?: AbortSignal;
 };
 
 /**
@@ -65,6 +70,11 @@ export async function runWorktreeCpAction(
 			}
 
 			for (const match of matches) {
+				if (options.signal?.aborted) {
+					logs.push(`  Cancelled after ${copied} copied`);
+					return { success: false, output: logs.join("\n"), cancelled: true };
+				}
+
 				const src = join(sourcePath, match);
 				const dest = join(options.gitRoot, match);
 
@@ -102,3 +112,18 @@ export async function runWorktreeCpAction(
 		return { success: true, output };
 	});
 }
+
+/**
+ * The `worktree:cp` action.
+ */
+export const worktreeCpAction: ActionDefinition<WorktreeCpAction> = {
+	key: "worktree:cp",
+	schema: BUILTIN_ACTION_SCHEMAS["worktree:cp"],
+	run: (ctx, signal) =>
+		runWorktreeCpAction(ctx.options, {
+			gitRoot: ctx.run.gitRoot,
+			getWorktrees: GitUtil.getWorktrees,
+			verbose: ctx.run.verbose,
+			signal,
+		}),
+};
@@ -0,0 +1,165 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { $ } from "bun";
+import {
+	type AffectedResult,
+	computeAffectedPackages,
+	formatAffectedReason,
+	resolveAffected,
+	resolveChangedFiles,
+} from "./affected";
+import type { WorkspacePackage } from "./npm-workspace";
+
+const packages: WorkspacePackage[] = [
+	{
+		name: "@org/app",
+		path: "/repo/apps/app",
+		scripts: {},
+		workspaceDeps: ["@org/ui"],
+	},
+	{
+		name: "@org/ui",
+		path: "/repo/libs/ui",
+		scripts: {},
+		workspaceDeps: ["@org/core"],
+	},
+	{
+		name: "@org/core",
+		path: "/repo/libs/core",
+		scripts: {},
+		workspaceDeps: [],
+	},
+	{
+		name: "@org/docs",
+		path: "/repo/docs",
+		scripts: {},
+		workspaceDeps: [],
+	},
+];
+
+describe("computeAffectedPackages", () => {
+	test("maps changed files to their packages", () => {
+		const affected = computeAffectedPackages(
+			["docs/index.md", "README.md"],
+			packages,
+			"/repo",
+		);
+		expect([...affected.keys()]).toEqual(["@org/docs"]);
+		expect(affected.get("@org/docs")).toEqual({
+			kind: "changed",
+			files: ["docs/index.md"],
+		});
+	});
+
+	test("includes transitive dependents", () => {
+		const affected = computeAffectedPackages(
+			["libs/core/src/index.ts"],
+			packages,
+			"/repo",
+		);
+		expect([...affected.keys()].sort()).toEqual([
+			"@org/app",
+			"@org/core",
+			"@org/ui",
+		]);
+		expect(affected.get("@org/ui")).toEqual({
+			kind: "dependent",
+			via: "@org/core",
+		});
+		expect(affected.get("@org/app")).toEqual({
+			kind: "dependent",
+			via: "@org/ui",
+		});
+	});
+
+	test("does not match sibling directories sharing a prefix", () => {
+		const affected = computeAffectedPackages(
+			["libs/core-extra/index.ts"],
+			packages,
+			"/repo",
+		);
+		expect(affected.size).toBe(0);
+	});
+
+	test("returns nothing when no files changed", () => {
+		expect(computeAffectedPackages([], packages, "/repo").size).toBe(0);
+	});
+});
+
+describe("formatAffectedReason", () => {
+	test("formats changed files", () => {
+		expect(
+			formatAffectedReason({ kind: "changed", files: ["a.ts", "b.ts"] }),
+		).toBe("changed: a.ts (+1 more)");
+	});
+
+	test("formats dependents", () => {
+		expect(formatAffectedReason({ kind: "dependent", via: "@org/ui" })).toBe(
+			"depends on @org/ui",
+		);
+	});
+});
+
+describe("resolveChangedFiles", () => {
+	const gitRoot = mkdtempSync(join(tmpdir(), "ot-affected-"));
+	afterAll(() => rmSync(gitRoot, { recursive: true, force: true }));
+
+	test("reuses the --affected changes only for the same base", async () => {
+		const commit = async (file: string, tag: string) => {
+			writeFileSync(join(gitRoot, file), file);
+			await $`git add ${file} && git commit -qm ${file} && git tag ${tag}`.cwd(
+				gitRoot,
+			);
+		};
+		await $`git init -q && git config user.email ci@example.com && git config user.name CI`.cwd(
+			gitRoot,
+		);
+		await commit("a.txt", "v1");
+		await commit("b.txt", "v2");
+		await commit("c.txt", "v3");
+
+		const affected: AffectedResult = {
+			base: "v2",
+			changedFiles: ["c.txt"],
+			packages: new Map(),
+		};
+		expect(await resolveChangedFiles(gitRoot, "v2", affected)).toBe(
+			affected.changedFiles,
+		);
+		expect(await resolveChangedFiles(gitRoot, "v1", affected)).toEqual([
+			"b.txt",
+			"c.txt",
+		]);
+	});
+});
+
+describe("resolveAffected", () => {
+	const gitRoot = mkdtempSync(join(tmpdir(), "ot-affected-"));
+	afterAll(() => rmSync(gitRoot, { recursive: true, force: true }));
+
+	test("ignores commits on main after the branch point", async () => {
+		const commit = async (file: string, content = file) => {
+			mkdirSync(dirname(join(gitRoot, file)), { recursive: true });
+			writeFileSync(join(gitRoot, file), content);
+			await $`git add ${file} && git commit -qm ${file}`.cwd(gitRoot);
+		};
+		await $`git init -q -b main && git config user.email ci@example.com && git config user.name CI`.cwd(
+			gitRoot,
+		);
+		await commit("package.json", JSON.stringify({ workspaces: ["libs/*"] }));
+		await commit("libs/a/package.json", JSON.stringify({ name: "a" }));
+		await commit("libs/b/package.json", JSON.stringify({ name: "b" }));
+		await $`git checkout -q -b feature`.cwd(gitRoot);
+		await commit("libs/a/index.ts");
+		await $`git checkout -q main`.cwd(gitRoot);
+		await commit("libs/b/index.ts");
+		await $`git checkout -q feature`.cwd(gitRoot);
+
+		const affected = await resolveAffected(gitRoot);
+		expect(affected.base).toBe("main");
+		expect(affected.changedFiles).toEqual(["libs/a/index.ts"]);
+		expect([...affected.packages.keys()]).toEqual(["a"]);
+	});
+});
@@ -0,0 +1,180 @@
+/**
+ * Affected package detection for `--affected` runs.
+ *
+ * Maps files changed since a base ref to workspace packages and expands the
+ * selection to every package that (transitively) depends on them.
+ */
+
+import { relative, sep } from "node:path";
+import { GitUtil } from "./git-util";
+import {
+	buildDependentsGraph,
+	discoverWorkspaces,
+	type WorkspacePackage,
+} from "./npm-workspace";
+
+/**
+ * Why a package was selected.
+ */
+export type AffectedReason =
+	| { readonly kind: "changed"; readonly files: readonly string[] }
+	| { readonly kind: "dependent"; readonly via: string };
+
+/**
+ * Result of affected package detection.
+ */
+export type AffectedResult = {
+	/** Base ref the changes were computed against */
+	readonly base: string;
+	/** Changed files, relative to the git root */
+	readonly changedFiles: readonly string[];
+	/** Selected package names with the reason each was selected */
+	readonly packages: ReadonlyMap<string, AffectedReason>;
+};
+
+/**
+ * Computes affected packages from a list of changed files.
+ *
+ * Each file is attributed to the package with the longest matching path, so
+ * nested packages win over their parents. Dependents are added breadth-first
+ * so each records the closest affected dependency.
+ *
+ * @param changedFiles - Changed file paths relative to the git root
+ * @param packages - Workspace packages
+ * @param gitRoot - Root of the git repository
+ * @returns Map of affected package name to selection reason
+ */
+export function computeAffectedPackages(
+	changedFiles: readonly string[],
+	packages: readonly WorkspacePackage[],
+	gitRoot: string,
+): Map<string, AffectedReason> {
+	const packageDirs = packages
+		.map((pkg) => ({
+			name: pkg.name,
+			dir: relative(gitRoot, pkg.path).split(sep).join("/"),
+		}))
+		.sort((a, b) => b.dir.length - a.dir.length);
+
+	const changedByPackage = new Map<string, string[]>();
+	for (const file of changedFiles) {
+		const owner = packageDirs.find(
+			(p) => p.dir === "" || file === p.dir || file.startsWith(`${p.dir}/`),
+		);
+		if (!owner) continue;
+		const files = changedByPackage.get(owner.name) ?? [];
+		files.push(file);
+		changedByPackage.set(owner.name, files);
+	}
+
+	const affected = new Map<string, AffectedReason>();
+	for (const [name, files] of changedByPackage) {
+		affected.set(name, { kind: "changed", files });
+	}
+
+	const dependents = buildDependentsGraph(packages);
+
+	const queue = [...changedByPackage.keys()];
+	while (queue.length > 0) {
+		const current = queue.shift();
+		if (current === undefined) break;
+		for (const dependent of dependents.get(current) ?? []) {
+			if (affected.has(dependent)) continue;
+			affected.set(dependent, { kind: "dependent", via: current });
+			queue.push(dependent);
+		}
+	}
+
+	return affected;
+}
+
+/**
+ * Resolves the default base ref: `main`, falling back to `origin/main`.
+ */
+async function resolveDefaultBase(gitRoot: string): Promise<string> {
+	for (const ref of ["main", "origin/main"]) {
+		if (await GitUtil.refExists(ref, { cwd: gitRoot })) return ref;
+	}
+	throw new Error(
+		'No "main" or "origin/main" ref found; pass a base ref with --affected=<ref>',
+	);
+}
+
+/**
+ * Resolves and validates the base ref changes are computed against.
+ *
+ * @param gitRoot - Root of the git repository
+ * @param base - Base ref (default: `main`, falling back to `origin/main`)
+ * @returns The base ref
+ * @throws Error if the ref does not exist
+ */
+export async function resolveBaseRef(
+	gitRoot: string,
+	base?: string,
+): Promise<string> {
+	const baseRef = base ?? (await resolveDefaultBase(gitRoot));
+	if (!(await GitUtil.refExists(baseRef, { cwd: gitRoot }))) {
+		throw new Error(`Base ref "${baseRef}" not found`);
+	}
+	return baseRef;
+}
+
+/**
+ * Lists files changed against a base ref, reusing the changes already
+ * computed for `--affected` when they were computed against the same ref.
+ *
+ * @param gitRoot - Root of the git repository
+ * @param base - Base ref (default: `main`, falling back to `origin/main`)
+ * @param affected - Result of `--affected` detection
+ * @returns Changed files relative to the git root
+ */
+export async function resolveChangedFiles(
+	gitRoot: string,
+	base?: string,
+	affected?: AffectedResult,
+): Promise<readonly string[]> {
+	const baseRef = await resolveBaseRef(gitRoot, base);
+	if (affected?.base === baseRef) return affected.changedFiles;
+	return GitUtil.getChangedFiles(baseRef, { cwd: gitRoot });
+}
+
+/**
+ * Detects affected workspace packages against a base ref.
+ *
+ * @param gitRoot - Root of the git repository
+ * @param base - Base ref (default: `main`, falling back to `origin/main`);
+ * changes are taken since its merge-base with HEAD, so commits on the base
+ * after the branch point do not count
+ * @returns Affected packages and the changes they were derived from
+ */
+export async function resolveAffected(
+	gitRoot: string,
+	base?: string,
+): Promise<AffectedResult> {
+	const baseRef = await resolveBaseRef(gitRoot, base);
+	const [changedFiles, packages] = await Promise.all([
+		GitUtil.getChangedFiles(baseRef, { cwd: gitRoot }),
+		discoverWorkspaces(gitRoot),
+	]);
+
+	return {
+		base: baseRef,
+		changedFiles,
+		packages: computeAffectedPackages(changedFiles, packages, gitRoot),
+	};
+}
+
+/**
+ * Formats an affected reason for display.
+ *
+ * @param reason - The selection reason
+ * @returns Short human-readable description
+ */
+export function formatAffectedReason(reason: AffectedReason): string {
+	if (reason.kind === "dependent") {
+		return `depends on ${reason.via}`;
+	}
+	const [first, ...rest] = reason.files;
+	const more = rest.length > 0 ? ` (+${rest.length} more)` : "";
+	return `changed: ${first}${more}`;
+}
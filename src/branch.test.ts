@@ -1,5 +1,11 @@
 import { describe, expect, test } from "bun:test";
-import { matchBranchPattern, matchGlob, shouldRunOnBranch } from "./branch";
+import {
+	checkBranchPattern,
+	matchBranchPattern,
+	matchGlob,
+	shouldRunOnBranch,
+	shouldRunOnPaths,
+} from "./branch";
 
 describe("matchGlob", () => {
 	test("matches exact strings", () => {
@@ -23,6 +29,16 @@ describe("matchGlob", () => {
 		expect(matchGlob("release-v1.0", "release-v?.?")).toBe(true);
 		expect(matchGlob("prefix-anything-suffix", "prefix-*-suffix")).toBe(true);
 	});
+
+	test("matches regex metacharacters literally", () => {
+		expect(matchGlob("v1.0", "v1.0")).toBe(true);
+		expect(matchGlob("v1x0", "v1.0")).toBe(false);
+		expect(matchGlob("a+b", "a+b")).toBe(true);
+		expect(matchGlob("aab", "a+b")).toBe(false);
+		expect(matchGlob("x", "(x|y)")).toBe(false);
+		expect(matchGlob("feat/[a", "feat/[a")).toBe(true);
+		expect(matchGlob("$HOME\\x", "$HOME\\*")).toBe(true);
+	});
 });
 
 describe("matchBranchPattern", () => {
@@ -139,3 +155,53 @@ describe("shouldRunOnBranch", () => {
 		});
 	});
 });
+
+describe("shouldRunOnPaths", () => {
+	const backend = ["apps/backend/**", "!**/*.md"];
+
+	test("returns true for undefined or empty paths", () => {
+		expect(shouldRunOnPaths(undefined, [])).toBe(true);
+		expect(shouldRunOnPaths([], [])).toBe(true);
+	});
+
+	test("runs when a changed file matches a positive pattern", () => {
+		expect(shouldRunOnPaths(backend, ["apps/backend/src/index.ts"])).toBe(true);
+		expect(shouldRunOnPaths(backend, ["apps/web/src/index.ts"])).toBe(false);
+		expect(shouldRunOnPaths(backend, [])).toBe(false);
+	});
+
+	test("ignores changed files matching a negation", () => {
+		expect(shouldRunOnPaths(backend, ["apps/backend/README.md"])).toBe(false);
+		expect(
+			shouldRunOnPaths(backend, [
+				"apps/backend/README.md",
+				"apps/backend/src/db.ts",
+			]),
+		).toBe(true);
+	});
+
+	test("negations alone match every other file", () => {
+		expect(shouldRunOnPaths(["!docs/**"], ["docs/guide.md"])).toBe(false);
+		expect(shouldRunOnPaths(["!docs/**"], ["docs/guide.md", "src/a.ts"])).toBe(
+			true,
+		);
+	});
+});
+
+describe("checkBranchPattern", () => {
+	test("accepts globs, negations and worktree patterns", () => {
+		for (const pattern of ["main", "feature-*", "!main", "worktree:*"]) {
+			expect(checkBranchPattern(pattern)).toBeUndefined();
+		}
+	});
+
+	test("reports patterns that fail or never match", () => {
+		expect(checkBranchPattern("!")).toBe("Pattern is empty");
+		expect(checkBranchPattern("!worktree:*")).toBe(
+			"worktree: patterns cannot be negated",
+		);
+		expect(checkBranchPattern("my branch")).toContain("not allowed");
+		expect(checkBranchPattern("feat/[a")).toContain("not allowed");
+		expect(checkBranchPattern("release/(v1)")).toBeUndefined();
+	});
+});
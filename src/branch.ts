@@ -1,9 +1,10 @@
 /**
- * Branch pattern matching utilities.
+ * Branch and path filter utilities.
  */
 
 /**
  * Simple glob matching: `*` matches any characters, `?` matches a single character.
+ * Every other character matches itself.
  *
  * @param text - Text to match
  * @param pattern - Glob pattern
@@ -11,7 +12,10 @@
  */
 export function matchGlob(text: string, pattern: string): boolean {
 	const regex = new RegExp(
-		`^${pattern.replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+		`^${pattern
+			.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+			.replace(/\*/g, ".*")
+			.replace(/\?/g, ".")}$`,
 	);
 	return regex.test(text);
 }
@@ -50,6 +54,25 @@ export function matchBranchPattern(
 	return matchGlob(branch, pattern);
 }
 
+/**
+ * Checks a branch filter pattern for mistakes that make it fail or never
+ * match.
+ *
+ * @param pattern - Branch filter pattern
+ * @returns Description of the problem, or undefined if the pattern is valid
+ */
+export function checkBranchPattern(pattern: string): string | undefined {
+	if (pattern.startsWith("!worktree:")) {
+		return "worktree: patterns cannot be negated";
+	}
+	const glob = pattern.replace(/^(?:worktree:|!)/, "");
+	if (glob.trim() === "") return "Pattern is empty";
+	if (/[\s~^:\\[]/.test(glob)) {
+		return "Pattern contains characters that are not allowed in branch names";
+	}
+	return undefined;
+}
+
 /**
  * Determines if a step should run based on branch filter patterns.
  *
@@ -90,3 +113,41 @@ export function shouldRunOnBranch(
 
 	return true;
 }
+
+/**
+ * Determines if a step should run based on path filter patterns.
+ *
+ * Rules:
+ * - Empty/undefined paths array means run regardless of changes
+ * - A changed file counts if it matches no negation pattern and, when there
+ *   are positive patterns, at least one of them
+ * - The step runs if at least one changed file counts
+ *
+ * @param paths - Path globs relative to the git root (`!` to exclude)
+ * @param changedFiles - Changed files relative to the git root
+ * @returns True if the step should run for these changes
+ *
+ * @example
+ * ```ts
+ * shouldRunOnPaths(["apps/**", "!apps/docs/**"], ["apps/docs/index.md"]); // false
+ * ```
+ */
+export function shouldRunOnPaths(
+	paths: readonly string[] | undefined,
+	changedFiles: readonly string[],
+): boolean {
+	if (!paths || paths.length === 0) return true;
+
+	const negations = paths
+		.filter((p) => p.startsWith("!"))
+		.map((p) => new Bun.Glob(p.slice(1)));
+	const positives = paths
+		.filter((p) => !p.startsWith("!"))
+		.map((p) => new Bun.Glob(p));
+
+	return changedFiles.some(
+		(file) =>
+			!negations.some((g) => g.match(file)) &&
+			(positives.length === 0 || positives.some((g) => g.match(file))),
+	);
+}
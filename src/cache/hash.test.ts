@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { computeTaskHash, expandGlobs } from "./hash";
+
+describe("expandGlobs", () => {
+	let dir: string;
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "ot-hash-"));
+		mkdirSync(join(dir, "src"));
+		mkdirSync(join(dir, "node_modules", "dep"), { recursive: true });
+		writeFileSync(join(dir, "src", "a.ts"), "a");
+		writeFileSync(join(dir, "src", "b.ts"), "b");
+		writeFileSync(join(dir, "src", "README.md"), "readme");
+		writeFileSync(join(dir, "node_modules", "dep", "index.ts"), "dep");
+	});
+
+	afterAll(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("returns sorted matches", async () => {
+		expect(await expandGlobs(dir, ["src/*.ts"])).toEqual([
+			"src/a.ts",
+			"src/b.ts",
+		]);
+	});
+
+	test("applies negated patterns", async () => {
+		expect(await expandGlobs(dir, ["src/**", "!**/*.md"])).toEqual([
+			"src/a.ts",
+			"src/b.ts",
+		]);
+	});
+
+	test("ignores node_modules", async () => {
+		expect(await expandGlobs(dir, ["**/*.ts"])).toEqual([
+			"src/a.ts",
+			"src/b.ts",
+		]);
+	});
+});
+
+describe("computeTaskHash", () => {
+	let dir: string;
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "ot-hash-"));
+		writeFileSync(join(dir, "input.txt"), "one");
+	});
+
+	afterAll(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const hash = (overrides: Partial<Parameters<typeof computeTaskHash>[0]>) =>
+		computeTaskHash({
+			definition: { cmd: "echo hi" },
+			cwd: dir,
+			inputs: ["*.txt"],
+			upstream: [],
+			...overrides,
+		});
+
+	test("is stable for identical inputs", async () => {
+		expect(await hash({})).toBe(await hash({}));
+		expect(await hash({})).toHaveLength(16);
+	});
+
+	test("changes when the definition changes", async () => {
+		expect(await hash({ definition: { cmd: "echo bye" } })).not.toBe(
+			await hash({}),
+		);
+	});
+
+	test("changes when an input file changes", async () => {
+		const before = await hash({});
+		writeFileSync(join(dir, "input.txt"), "two");
+		expect(await hash({})).not.toBe(before);
+	});
+
+	test("changes when an upstream hash changes", async () => {
+		expect(await hash({ upstream: ["abc"] })).not.toBe(
+			await hash({ upstream: ["def"] }),
+		);
+	});
+
+	test("includes declared environment variables", async () => {
+		const inputs = ["*.txt", "$OT_HASH_TEST"];
+		process.env.OT_HASH_TEST = "a";
+		const a = await hash({ inputs });
+		process.env.OT_HASH_TEST = "b";
+		const b = await hash({ inputs });
+		delete process.env.OT_HASH_TEST;
+		expect(a).not.toBe(b);
+	});
+});
@@ -0,0 +1,96 @@
+/**
+ * Content hashing for cacheable tasks.
+ */
+
+import { join } from "node:path";
+
+/**
+ * Inputs that determine a task's cache key.
+ */
+export type TaskHashInput = {
+	/** Task definition (step config, script command, ...) */
+	readonly definition: unknown;
+	/** Directory that input globs are relative to */
+	readonly cwd: string;
+	/** Input globs and `$ENV_VAR` names */
+	readonly inputs: readonly string[];
+	/** Hashes of upstream tasks this task depends on */
+	readonly upstream: readonly string[];
+};
+
+/**
+ * Expands glob patterns relative to a directory.
+ * Patterns prefixed with `!` exclude previously matched files.
+ * Files inside `node_modules` and `.git` are never matched.
+ *
+ * @param cwd - Directory to scan
+ * @param patterns - Glob patterns
+ * @returns Sorted, de-duplicated relative file paths
+ */
+export async function expandGlobs(
+	cwd: string,
+	patterns: readonly string[],
+): Promise<string[]> {
+	const includes = patterns.filter((p) => !p.startsWith("!"));
+	const excludes = patterns
+		.filter((p) => p.startsWith("!"))
+		.map((p) => new Bun.Glob(p.slice(1)));
+
+	const files = new Set<string>();
+	for (const pattern of includes) {
+		const glob = new Bun.Glob(pattern);
+		for await (const match of glob.scan({ cwd, dot: true })) {
+			const segments = match.split("/");
+			if (segments.includes("node_modules") || segments.includes(".git")) {
+				continue;
+			}
+			if (excludes.some((e) => e.match(match))) continue;
+			files.add(match);
+		}
+	}
+
+	return [...files].sort();
+}
+
+/**
+ * Computes a content hash for a task from its definition, input files,
+ * environment variables and upstream task hashes.
+ *
+ * @param input - Hash inputs
+ * @returns 16-character hex hash
+ *
+ * @example
+ * ```ts
+ * const hash = await computeTaskHash({
+ *   definition: { cmd: "bun run build" },
+ *   cwd: gitRoot,
+ *   inputs: ["src/**", "$NODE_ENV"],
+ *   upstream: [],
+ * });
+ * ```
+ */
+export async function computeTaskHash(input: TaskHashInput): Promise<string> {
+	const hasher = new Bun.CryptoHasher("sha256");
+	hasher.update(JSON.stringify(input.definition) ?? "");
+
+	const envNames = input.inputs
+		.filter((i) => i.startsWith("$"))
+		.map((i) => i.slice(1))
+		.sort();
+	const globs = input.inputs.filter((i) => !i.startsWith("$"));
+
+	for (const file of await expandGlobs(input.cwd, globs)) {
+		hasher.update(`\0file:${file}\0`);
+		hasher.update(await Bun.file(join(input.cwd, file)).bytes());
+	}
+
+	for (const name of envNames) {
+		hasher.update(`\0env:${name}=${process.env[name] ?? ""}`);
+	}
+
+	for (const hash of [...input.upstream].sort()) {
+		hasher.update(`\0upstream:${hash}`);
+	}
+
+	return hasher.digest("hex").slice(0, 16);
+}
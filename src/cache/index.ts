@@ -0,0 +1,4 @@
+export * from "./hash";
+export * from "./remote";
+export * from "./server";
+export * from "./task-cache";
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HttpRemoteCache } from "./remote";
+import { startCacheServer } from "./server";
+import { TaskCache, withCache } from "./task-cache";
+
+describe("remote cache", () => {
+	let dir: string;
+	let server: ReturnType<typeof startCacheServer>;
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "ot-remote-"));
+		server = startCacheServer({ dir: join(dir, "server"), token: "secret" });
+	});
+
+	afterAll(() => {
+		server.stop(true);
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("round-trips artifacts through the server", async () => {
+		const remote = new HttpRemoteCache({
+			url: server.url.href,
+			token: "secret",
+		});
+		expect(await remote.get("abc")).toBeUndefined();
+
+		await remote.put("abc", new Uint8Array([1, 2, 3]));
+		expect(await remote.get("abc")).toEqual(new Uint8Array([1, 2, 3]));
+	});
+
+	test("rejects requests without the token", async () => {
+		const remote = new HttpRemoteCache({ url: server.url.href });
+		expect(remote.get("abc")).rejects.toThrow(/401/);
+	});
+
+	test("shares task results between local caches", async () => {
+		const remote = new HttpRemoteCache({
+			url: server.url.href,
+			token: "secret",
+		});
+		const producer = new TaskCache(join(dir, "producer"), { remote });
+		const consumer = new TaskCache(join(dir, "consumer"), { remote });
+		const cwd = join(dir, "work");
+		mkdirSync(join(cwd, "dist"), { recursive: true });
+		writeFileSync(join(cwd, "dist", "out.js"), "built");
+
+		const run = async () => ({ success: true, output: "ok", duration: 1 });
+		const target = { hash: "shared", cwd, outputs: ["dist/**"] };
+		await withCache({ ...target, cache: producer }, false, run);
+		expect(existsSync(join(dir, "server", "shared.tar.gz"))).toBe(true);
+
+		rmSync(join(cwd, "dist"), { recursive: true });
+		const result = await withCache({ ...target, cache: consumer }, false, run);
+		expect(result.cached).toBe(true);
+		expect(readFileSync(join(cwd, "dist", "out.js"), "utf8")).toBe("built");
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Remote cache backends and artifact packing.
+ *
+ * Artifacts are gzipped tarballs of a cache entry directory, exchanged over
+ * HTTP using the Turborepo-style `/v8/artifacts/:hash` endpoints.
+ */
+
+import { mkdirSync } from "node:fs";
+import { $ } from "bun";
+
+/**
+ * Storage backend for sharing cache artifacts between machines.
+ */
+export type RemoteCacheBackend = {
+	/** Fetches an artifact, or undefined if it does not exist */
+	get(hash: string): Promise<Uint8Array | undefined>;
+	/** Uploads an artifact */
+	put(hash: string, artifact: Uint8Array): Promise<void>;
+};
+
+/**
+ * Options for the HTTP remote cache client.
+ */
+export type HttpRemoteCacheOptions = {
+	/** Base URL of the cache server (e.g. http://localhost:4000) */
+	readonly url: string;
+	/** Bearer token sent with every request */
+	readonly token?: string;
+	/** Team identifier sent as the `teamId` query parameter */
+	readonly team?: string;
+};
+
+/**
+ * Remote cache client speaking the `/v8/artifacts/:hash` protocol.
+ */
+export class HttpRemoteCache implements RemoteCacheBackend {
+	readonly #options: HttpRemoteCacheOptions;
+
+	constructor(options: HttpRemoteCacheOptions) {
+		this.#options = options;
+	}
+
+	async get(hash: string): Promise<Uint8Array | undefined> {
+		const response = await fetch(this.#artifactUrl(hash), {
+			headers: this.#headers(),
+		});
+		if (response.status === 404) return undefined;
+		if (!response.ok) {
+			throw new Error(
+				`Remote cache GET ${hash} failed: ${response.status} ${response.statusText}`,
+			);
+		}
+		return new Uint8Array(await response.arrayBuffer());
+	}
+
+	async put(hash: string, artifact: Uint8Array): Promise<void> {
+		const response = await fetch(this.#artifactUrl(hash), {
+			method: "PUT",
+			headers: {
+				...this.#headers(),
+				"Content-Type": "application/octet-stream",
+			},
+			body: artifact,
+		});
+		if (!response.ok) {
+			throw new Error(
+				`Remote cache PUT ${hash} failed: ${response.status} ${response.statusText}`,
+			);
+		}
+	}
+
+	#artifactUrl(hash: string): string {
+		const url = new URL(
+			`v8/artifacts/${encodeURIComponent(hash)}`,
+			this.#options.url.endsWith("/")
+				? this.#options.url
+				: `${this.#options.url}/`,
+		);
+		if (this.#options.team) {
+			url.searchParams.set("teamId", this.#options.team);
+		}
+		return url.toString();
+	}
+
+	#headers(): Record<string, string> {
+		return this.#options.token
+			? { Authorization: `Bearer ${this.#options.token}` }
+			: {};
+	}
+}
+
+/**
+ * Packs a directory into a gzipped tarball.
+ *
+ * @param dir - Directory to pack
+ * @returns Tarball bytes
+ */
+export async function packArtifact(dir: string): Promise<Uint8Array> {
+	const result = await $`tar -czf - -C ${dir} .`.quiet().nothrow();
+	if (result.exitCode !== 0) {
+		throw new Error(`Failed to pack ${dir}: ${result.stderr.toString()}`);
+	}
+	return new Uint8Array(result.stdout);
+}
+
+/**
+ * Extracts a gzipped tarball into a directory.
+ *
+ * @param artifact - Tarball bytes
+ * @param dir - Destination directory (created if missing)
+ */
+export async function unpackArtifact(
+	artifact: Uint8Array,
+	dir: string,
+): Promise<void> {
+	mkdirSync(dir, { recursive: true });
+	const result = await $`tar -xzf - -C ${dir} < ${new Blob([artifact])}`
+		.quiet()
+		.nothrow();
+	if (result.exitCode !== 0) {
+		throw new Error(
+			`Failed to unpack into ${dir}: ${result.stderr.toString()}`,
+		);
+	}
+}
@@ -0,0 +1,89 @@
+/**
+ * Filesystem-backed remote cache server.
+ *
+ * Implements the subset of the Turborepo remote cache API used by
+ * `HttpRemoteCache`, storing artifacts as `<dir>/<hash>.tar.gz`.
+ */
+
+import { mkdirSync, renameSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Options for starting a cache server.
+ */
+export type CacheServerOptions = {
+	/** Directory where artifacts are stored */
+	readonly dir: string;
+	/** Port to listen on (0 picks a free port) */
+	readonly port?: number;
+	/** Hostname to bind (default: 127.0.0.1) */
+	readonly hostname?: string;
+	/** When set, requests must send `Authorization: Bearer <token>` */
+	readonly token?: string;
+};
+
+const ARTIFACT_PATH = /^\/v8\/artifacts\/([A-Za-z0-9_-]+)$/;
+
+/**
+ * Starts a cache server.
+ *
+ * @param options - Server options
+ * @returns The running Bun server (call `stop()` to shut down)
+ *
+ * @example
+ * ```ts
+ * const server = startCacheServer({ dir: ".ot-cache", port: 4000 });
+ * console.log(server.url.href);
+ * ```
+ */
+export function startCacheServer(
+	options: CacheServerOptions,
+): ReturnType<typeof Bun.serve> {
+	mkdirSync(options.dir, { recursive: true });
+
+	return Bun.serve({
+		port: options.port ?? 0,
+		hostname: options.hostname ?? "127.0.0.1",
+		async fetch(request) {
+			const url = new URL(request.url);
+
+			if (
+				options.token &&
+				request.headers.get("authorization") !== `Bearer ${options.token}`
+			) {
+				return new Response("Unauthorized", { status: 401 });
+			}
+
+			if (url.pathname === "/v8/artifacts/status") {
+				return Response.json({ status: "enabled" });
+			}
+
+			const match = ARTIFACT_PATH.exec(url.pathname);
+			if (!match?.[1]) {
+				return new Response("Not Found", { status: 404 });
+			}
+
+			const artifactPath = join(options.dir, `${match[1]}.tar.gz`);
+			const file = Bun.file(artifactPath);
+
+			switch (request.method) {
+				case "GET":
+				case "HEAD":
+					if (!(await file.exists())) {
+						return new Response("Not Found", { status: 404 });
+					}
+					return new Response(request.method === "HEAD" ? null : file, {
+						headers: { "Content-Type": "application/octet-stream" },
+					});
+				case "PUT": {
+					const tmpPath = `${artifactPath}.tmp-${crypto.randomUUID()}`;
+					await Bun.write(tmpPath, await request.arrayBuffer());
+					renameSync(tmpPath, artifactPath);
+					return Response.json({ urls: [url.pathname] }, { status: 202 });
+				}
+				default:
+					return new Response("Method Not Allowed", { status: 405 });
+			}
+		},
+	});
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TaskCache, withCache } from "./task-cache";
+
+describe("withCache", () => {
+	let dir: string;
+	let cwd: string;
+	let cache: TaskCache;
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "ot-cache-"));
+		cwd = join(dir, "work");
+		mkdirSync(cwd);
+		cache = new TaskCache(join(dir, "cache"));
+	});
+
+	afterAll(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("runs on miss and replays on hit", async () => {
+		let runs = 0;
+		const target = { cache, hash: "h1", cwd, outputs: ["dist/**"] };
+		const run = async () => {
+			runs++;
+			mkdirSync(join(cwd, "dist"), { recursive: true });
+			writeFileSync(join(cwd, "dist", "out.js"), "built");
+			return { success: true, output: "build output", duration: 5 };
+		};
+
+		const first = await withCache(target, false, run);
+		expect(first.cached).toBeUndefined();
+		expect(first.hash).toBe("h1");
+
+		rmSync(join(cwd, "dist"), { recursive: true });
+
+		const second = await withCache(target, false, run);
+		expect(second.cached).toBe(true);
+		expect(second.output).toBe("build output");
+		expect(runs).toBe(1);
+		expect(readFileSync(join(cwd, "dist", "out.js"), "utf8")).toBe("built");
+	});
+
+	test("does not store failed runs", async () => {
+		const target = { cache, hash: "h2", cwd, outputs: [] };
+		await withCache(target, false, async () => ({
+			success: false,
+			output: "boom",
+			duration: 1,
+		}));
+		expect(existsSync(join(dir, "cache", "h2"))).toBe(false);
+	});
+
+	test("runs uncached without a target", async () => {
+		const result = await withCache(undefined, false, async () => ({
+			success: true,
+			output: "ok",
+			duration: 1,
+		}));
+		expect(result.cached).toBeUndefined();
+		expect(result.hash).toBeUndefined();
+	});
+});
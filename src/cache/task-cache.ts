@@ -0,0 +1,265 @@
+/**
+ * Local filesystem cache for task output and artifacts.
+ */
+
+import {
+	cpSync,
+	existsSync,
+	mkdirSync,
+	renameSync,
+	rmSync,
+	statSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import type { ActionResult } from "../actions/types";
+import type { CacheConfig, CacheMode } from "../types";
+import { expandGlobs } from "./hash";
+import {
+	HttpRemoteCache,
+	packArtifact,
+	type RemoteCacheBackend,
+	unpackArtifact,
+} from "./remote";
+
+/**
+ * Metadata stored for a cached task run.
+ */
+export type CachedRun = {
+	readonly output: string;
+	readonly duration: number;
+	/** Named values the task wrote to `$OT_OUTPUT` */
+	readonly outputs?: Readonly<Record<string, string>>;
+};
+
+/**
+ * Identifies a cacheable task execution.
+ */
+export type CacheTarget = {
+	readonly cache: TaskCache;
+	readonly hash: string;
+	/** Directory that output globs are relative to */
+	readonly cwd: string;
+	/** Output globs to store and restore */
+	readonly outputs: readonly string[];
+};
+
+/**
+ * Options for creating a task cache.
+ */
+export type TaskCacheOptions = {
+	/** Remote backend consulted on local misses and updated on saves */
+	readonly remote?: RemoteCacheBackend;
+};
+
+/**
+ * Returns the default cache directory for a repository.
+ *
+ * @param gitRoot - Root of the git repository
+ * @returns Absolute cache directory path
+ */
+export function getDefaultCacheDir(gitRoot: string): string {
+	return join(gitRoot, "node_modules", ".cache", "openturbo");
+}
+
+/**
+ * Content-addressed task cache stored on the local filesystem.
+ *
+ * Each entry lives in `<dir>/<hash>/` with a `meta.json` describing the run
+ * and an `outputs/` tree holding the declared output files. When a remote
+ * backend is configured, entries are exchanged with it as tarballs.
+ */
+export class TaskCache {
+	readonly #dir: string;
+	readonly #remote: RemoteCacheBackend | undefined;
+
+	constructor(dir: string, options: TaskCacheOptions = {}) {
+		this.#dir = dir;
+		this.#remote = options.remote;
+	}
+
+	get dir(): string {
+		return this.#dir;
+	}
+
+	/**
+	 * Looks up a cache entry and restores its outputs into `cwd`.
+	 *
+	 * @returns The cached run, or undefined on a cache miss
+	 */
+	async restore(hash: string, cwd: string): Promise<CachedRun | undefined> {
+		const entryDir = join(this.#dir, hash);
+		const metaPath = join(entryDir, "meta.json");
+		if (!existsSync(metaPath) && !(await this.#download(hash))) {
+			return undefined;
+		}
+
+		const run = (await Bun.file(metaPath).json()) as CachedRun;
+		const outputsDir = join(entryDir, "outputs");
+		if (existsSync(outputsDir)) {
+			cpSync(outputsDir, cwd, { recursive: true });
+		}
+		return run;
+	}
+
+	/**
+	 * Stores a run and the files matching `outputs` (relative to `cwd`).
+	 */
+	async save(
+		hash: string,
+		cwd: string,
+		outputs: readonly string[],
+		run: CachedRun,
+	): Promise<void> {
+		const entryDir = join(this.#dir, hash);
+		const tmpDir = `${entryDir}.tmp-${process.pid}`;
+		rmSync(tmpDir, { recursive: true, force: true });
+
+		for (const file of await expandGlobs(cwd, outputs)) {
+			const src = join(cwd, file);
+			if (!statSync(src).isFile()) continue;
+			const dest = join(tmpDir, "outputs", file);
+			mkdirSync(dirname(dest), { recursive: true });
+			cpSync(src, dest);
+		}
+
+		await Bun.write(join(tmpDir, "meta.json"), JSON.stringify(run));
+
+		rmSync(entryDir, { recursive: true, force: true });
+		renameSync(tmpDir, entryDir);
+
+		await this.#upload(hash);
+	}
+
+	/**
+	 * Fetches an entry from the remote backend into the local cache.
+	 *
+	 * @returns True if the entry was downloaded
+	 */
+	async #download(hash: string): Promise<boolean> {
+		if (!this.#remote) return false;
+		try {
+			const artifact = await this.#remote.get(hash);
+			if (!artifact) return false;
+
+			const entryDir = join(this.#dir, hash);
+			const tmpDir = `${entryDir}.tmp-${process.pid}`;
+			rmSync(tmpDir, { recursive: true, force: true });
+			await unpackArtifact(artifact, tmpDir);
+			if (!existsSync(join(tmpDir, "meta.json"))) {
+				rmSync(tmpDir, { recursive: true, force: true });
+				return false;
+			}
+			rmSync(entryDir, { recursive: true, force: true });
+			renameSync(tmpDir, entryDir);
+			return true;
+		} catch {
+			// Remote failures degrade to a cache miss
+			return false;
+		}
+	}
+
+	/**
+	 * Uploads a local entry to the remote backend (best-effort).
+	 */
+	async #upload(hash: string): Promise<void> {
+		if (!this.#remote) return;
+		try {
+			const artifact = await packArtifact(join(this.#dir, hash));
+			await this.#remote.put(hash, artifact);
+		} catch {
+			// Remote failures must not fail the task
+		}
+	}
+}
+
+/**
+ * Creates the task cache for a run.
+ *
+ * The remote URL, team and token come from `OT_REMOTE_CACHE_URL`,
+ * `OT_REMOTE_CACHE_TEAM` and `OT_REMOTE_CACHE_TOKEN`, falling back to the
+ * `cache.remote` config block.
+ *
+ * @param gitRoot - Root of the git repository
+ * @param mode - Cache mode from `--cache`
+ * @param config - Cache configuration
+ * @returns Task cache, or undefined when caching is off
+ * @throws Error if remote mode is requested without a URL
+ */
+export function createTaskCache(
+	gitRoot: string,
+	mode: CacheMode,
+	config: CacheConfig | undefined,
+): TaskCache | undefined {
+	if (mode === "off") return undefined;
+
+	const dir = getDefaultCacheDir(gitRoot);
+	if (mode === "local") return new TaskCache(dir);
+
+	const url = process.env.OT_REMOTE_CACHE_URL ?? config?.remote?.url;
+	if (!url) {
+		throw new Error(
+			"Remote cache requires a URL (set cache.remote.url or OT_REMOTE_CACHE_URL)",
+		);
+	}
+
+	return new TaskCache(dir, {
+		remote: new HttpRemoteCache({
+			url,
+			team: process.env.OT_REMOTE_CACHE_TEAM ?? config?.remote?.team,
+			token: process.env.OT_REMOTE_CACHE_TOKEN,
+		}),
+	});
+}
+
+/**
+ * Wraps an action with cache lookup and storage.
+ *
+ * On a hit the declared outputs are restored and the cached output is
+ * replayed; on a successful miss the result is stored.
+ *
+ * @param target - Cache target, or undefined to run uncached
+ * @param verbose - Whether to print replayed output
+ * @param fn - The action to run on a cache miss
+ * @returns Action result, with `cached: true` on a hit
+ */
+export async function withCache(
+	target: CacheTarget | undefined,
+	verbose: boolean,
+	fn: () => Promise<ActionResult>,
+): Promise<ActionResult> {
+	if (!target) return fn();
+
+	const start = performance.now();
+	try {
+		const hit = await target.cache.restore(target.hash, target.cwd);
+		if (hit) {
+			if (verbose && hit.output.trim()) {
+				console.log(hit.output);
+			}
+			return {
+				success: true,
+				output: hit.output,
+				duration: Math.round(performance.now() - start),
+				cached: true,
+				hash: target.hash,
+				outputs: hit.outputs,
+			};
+		}
+	} catch {
+		// Treat unreadable entries as a miss
+	}
+
+	const result = await fn();
+	if (result.success) {
+		try {
+			await target.cache.save(target.hash, target.cwd, target.outputs, {
+				output: result.output,
+				duration: result.duration,
+				outputs: result.outputs,
+			});
+		} catch {
+			// Caching is best-effort
+		}
+	}
+	return { ...result, hash: target.hash };
+}
@@ -13,27 +13,94 @@
 
 import { parseArgs } from "node:util";
 import { z } from "zod";
-import { handleGraph, handleHelp, handleRun, handleWt } from "./handlers/mod";
 import {
-	ConfigSchema,
+	handleCache,
+	handleConfig,
+	handleGraph,
+	handleHelp,
+	handleRun,
+	handleValidate,
+	handleWt,
+} from "./handlers/mod";
+import {
+	ANSI,
+	type CacheMode,
+	checkWorkflowReferences,
 	createColorizer,
+	createConfigSchema,
 	GitUtil,
-	getSteps,
+	getActionSchemas,
+	getTemplateContext,
+	getWorkflowBase,
+	getWorkflowEnv,
+	interpolateConfig,
+	killAllProcesses,
 	loadConfig,
+	parseConcurrency,
+	parseParamArgs,
+	resolveAffected,
+	resolveWorkflowSteps,
 } from "./mod";
 
+/**
+ * Installs SIGINT/SIGTERM handlers for a run.
+ *
+ * The first signal aborts the run: running steps are terminated gracefully
+ * and pending steps are skipped. A second signal force-kills every child
+ * process and exits immediately.
+ *
+ * @param isTTY - Whether the cursor may be hidden by the progress printer
+ * @returns Abort signal for the run and a function removing the handlers
+ */
+function installCancelHandlers(isTTY: boolean): {
+	signal: AbortSignal;
+	dispose: () => void;
+} {
+	const controller = new AbortController();
+	const onSignal = () => {
+		if (!controller.signal.aborted) {
+			controller.abort();
+			return;
+		}
+		killAllProcesses("SIGKILL");
+		if (isTTY) process.stdout.write(ANSI.showCursor);
+		process.exit(130);
+	};
+	process.on("SIGINT", onSignal);
+	process.on("SIGTERM", onSignal);
+	return {
+		signal: controller.signal,
+		dispose: () => {
+			process.off("SIGINT", onSignal);
+			process.off("SIGTERM", onSignal);
+		},
+	};
+}
+
 async function main(): Promise<void> {
+	// Everything after `--` is passed through to `${{ args }}`
+	const argv = Bun.argv.slice(2);
+	const separator = argv.indexOf("--");
+	const extraArgs = separator === -1 ? [] : argv.slice(separator + 1);
+
 	const { positionals, values } = parseArgs({
 		allowPositionals: true,
 		strict: false,
-		args: Bun.argv.slice(2),
+		args: separator === -1 ? argv : argv.slice(0, separator),
 		options: {
+			// Boolean so `--affected` never swallows the job name; `--affected=<ref>` yields a string
+			affected: { type: "boolean" },
+			base: { type: "string" },
+			cache: { type: "string" },
+			concurrency: { type: "string" },
 			config: { short: "c", type: "string" },
 			"fail-fast": { default: true, type: "boolean" },
+			filter: { short: "F", type: "string", multiple: true },
 			graph: { type: "boolean" },
 			help: { short: "h", type: "boolean" },
 			job: { short: "j", type: "string" },
 			"no-color": { type: "boolean" },
+			param: { short: "p", type: "string", multiple: true },
 			verbose: { short: "v", type: "boolean" },
 		},
 	});
@@ -42,6 +109,15 @@ async function main(): Promise<void> {
 	const jobArg = values.job as string | undefined;
 	const verboseArg = values.verbose as boolean | undefined;
 	const failFastArg = values["fail-fast"] as boolean | undefined;
+	const cacheArg = (values.cache as string | undefined) ?? "local";
+	const filterArg = (values.filter as string[] | undefined) ?? [];
+	const paramArg = (values.param as string[] | undefined) ?? [];
+	const baseArg = values.base as string | undefined;
+	const affectedArg = values.affected as string | boolean | undefined;
+	const affected =
+		affectedArg === true || typeof affectedArg === "string"
+			? affectedArg
+			: undefined;
 
 	const isTTY = process.stdout.isTTY ?? false;
 	const noColor = values["no-color"] ?? !isTTY;
@@ -62,7 +138,16 @@ async function main(): Promise<void> {
 	// Handle wt command
 	if (jobArg === "wt" || positionals[0] === "wt") {
 		const gitRoot = await GitUtil.getGitRoot();
-		const config = await loadConfig(configArg, gitRoot);
+		let config = await loadConfig(configArg, gitRoot);
+		try {
+			config = interpolateConfig(config, await getTemplateContext(gitRoot), {
+				workflows: [],
+			});
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			console.error(c("red", `Error: ${message}`));
+			process.exit(1);
+		}
 
 		// Pass raw arguments after "wt" to preserve flags like -b
 		const rawArgs = Bun.argv.slice(2);
@@ -75,9 +160,41 @@ async function main(): Promise<void> {
 		process.exit(0);
 	}
 
-	// Handle schema command
+	// Handle cache command
+	if (positionals[0] === "cache") {
+		const rawArgs = Bun.argv.slice(2);
+		const args = rawArgs.slice(rawArgs.indexOf("cache") + 1);
+
+		// The server keeps the process alive until interrupted
+		await handleCache(args, c);
+		return;
+	}
+
+	// Handle config command
+	if (positionals[0] === "config") {
+		const rawArgs = Bun.argv.slice(2);
+		const args = rawArgs.slice(rawArgs.indexOf("config") + 1);
+		process.exit(await handleConfig(args, configArg, c));
+	}
+
+	// Handle validate command
+	if (positionals[0] === "validate") {
+		const rawArgs = Bun.argv.slice(2);
+		const args = rawArgs.slice(rawArgs.indexOf("validate") + 1);
+		process.exit(await handleValidate(args, configArg, c));
+	}
+
+	// Handle schema command; it describes configs as written, before steps
+	// are normalized to their action key
 	if (positionals[0] === "schema") {
-		const jsonSchema = z.toJSONSchema(ConfigSchema);
+		// Loading the config registers its plugins' actions; without a
+		// loadable config the schema has the built-in actions only
+		await GitUtil.getGitRoot()
+			.then((gitRoot) => loadConfig(configArg, gitRoot))
+			.catch(() => undefined);
+		const jsonSchema = z.toJSONSchema(createConfigSchema(getActionSchemas()), {
+			io: "input",
+		});
 		console.log(JSON.stringify(jsonSchema, null, 2));
 		process.exit(0);
 	}
@@ -108,9 +225,27 @@ async function main(): Promise<void> {
 			process.exit(1);
 		}
 
-		const steps = getSteps(workflow);
+		const base = baseArg ?? getWorkflowBase(workflow);
 		try {
-			await handleGraph(steps, c, gitRoot);
+			checkWorkflowReferences(config.workflows, jobName);
+			const { steps } = resolveWorkflowSteps(
+				workflow,
+				parseParamArgs(paramArg),
+				extraArgs,
+			);
+			await handleGraph(steps, c, gitRoot, {
+				affected:
+					affected !== undefined
+						? await resolveAffected(
+								gitRoot,
+								affected === true ? base : affected,
+							)
+						: undefined,
+				filters: filterArg,
+				env: getWorkflowEnv(workflow),
+				base,
+				workflows: config.workflows,
+			});
 		} catch (e) {
 			const message = e instanceof Error ? e.message : String(e);
 			console.error(c("red", `Error: ${message}`));
@@ -119,15 +254,41 @@ async function main(): Promise<void> {
 		process.exit(0);
 	}
 
+	let concurrency: number | undefined;
+	if (typeof values.concurrency === "string") {
+		try {
+			concurrency = parseConcurrency(values.concurrency);
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			console.error(c("red", `Error: ${message}`));
+			process.exit(1);
+		}
+	}
+
+	if (!["local", "remote", "off"].includes(cacheArg)) {
+		console.error(c("red", `Error: Invalid --cache value "${cacheArg}"`));
+		console.error(c("dim", "Expected one of: local, remote, off"));
+		process.exit(1);
+	}
+
 	// Default: run the job
+	const cancel = installCancelHandlers(isTTY);
 	const exitCode = await handleRun({
 		jobName,
 		configPath: configArg,
 		verbose: verboseArg ?? false,
 		failFast: failFastArg ?? true,
+		cacheMode: cacheArg as CacheMode,
+		affected,
+		base: baseArg,
+		params: paramArg,
+		args: extraArgs,
+		filters: filterArg,
+		concurrency,
+		signal: cancel.signal,
 		isTTY,
 		c,
-	});
+	}).finally(cancel.dispose);
 
 	process.exit(exitCode);
 }
@@ -0,0 +1,149 @@
+/**
+ * Step `if` conditions.
+ *
+ * Conditions that only read the environment, branch and changed files are
+ * evaluated before the run starts. Conditions that read `steps.<name>` are
+ * deferred until those steps have finished.
+ */
+
+import {
+	callsFunction,
+	type Expression,
+	type ExpressionContext,
+	getReferencedSteps,
+	parseExpression,
+} from "./expression";
+import type { Step, StepStatus } from "./types";
+
+/**
+ * What a condition can see about a finished step.
+ */
+export type ConditionStepInfo = {
+	readonly status: StepStatus;
+	readonly duration: number;
+	/** Named values the step wrote to `$OT_OUTPUT` */
+	readonly outputs?: Readonly<Record<string, string>>;
+};
+
+/**
+ * Inputs for building a condition context.
+ */
+export type ConditionState = {
+	readonly branch: string;
+	readonly inWorktree: boolean;
+	/** Process environment merged with the workflow `env` */
+	readonly env: Readonly<Record<string, string | undefined>>;
+	/** Files changed against the base ref, when `changed()` is used */
+	readonly changedFiles?: readonly string[];
+	readonly steps?: Readonly<Record<string, ConditionStepInfo>>;
+};
+
+/**
+ * Lists the steps a condition reads, with matrix parents replaced by their
+ * children.
+ *
+ * @param expression - Parsed condition
+ * @param groups - Matrix child step names by parent name
+ * @returns Names of the steps the condition waits for
+ */
+export function getConditionSteps(
+	expression: Expression,
+	groups: ReadonlyMap<string, readonly string[]> = new Map(),
+): Set<string> {
+	return new Set(
+		[...getReferencedSteps(expression)].flatMap(
+			(name) => groups.get(name) ?? [name],
+		),
+	);
+}
+
+/**
+ * Parses the `if` condition of every step.
+ *
+ * @param steps - Workflow steps
+ * @param groups - Matrix child step names by parent name; a condition may
+ * read a parent whose children are all dependencies
+ * @returns Parsed conditions by step name
+ * @throws Error for syntax errors, or conditions that read a step that is
+ * not listed in `dependsOn`
+ */
+export function parseStepConditions(
+	steps: readonly Step[],
+	groups: ReadonlyMap<string, readonly string[]> = new Map(),
+): Map<string, Expression> {
+	const conditions = new Map<string, Expression>();
+	for (const step of steps) {
+		if (step.if === undefined) continue;
+
+		let expression: Expression;
+		try {
+			expression = parseExpression(step.if);
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			throw new Error(`Step "${step.name}": ${message}`);
+		}
+
+		for (const name of getReferencedSteps(expression)) {
+			const names = groups.get(name) ?? [name];
+			if (!names.every((n) => step.dependsOn?.includes(n))) {
+				throw new Error(
+					`Step "${step.name}": condition reads steps.${name}, so "${name}" must be listed in dependsOn`,
+				);
+			}
+		}
+		conditions.set(step.name, expression);
+	}
+	return conditions;
+}
+
+/**
+ * Checks whether a condition must wait for the steps it reads.
+ *
+ * @param expression - Parsed condition
+ * @returns True if the condition references `steps`
+ */
+export function isDeferredCondition(expression: Expression): boolean {
+	return getReferencedSteps(expression).size > 0;
+}
+
+/**
+ * Checks whether any condition calls `changed()`.
+ *
+ * @param conditions - Parsed conditions
+ * @returns True if changed files need to be resolved
+ */
+export function needsChangedFiles(
+	conditions: ReadonlyMap<string, Expression>,
+): boolean {
+	return [...conditions.values()].some((e) => callsFunction(e, "changed"));
+}
+
+/**
+ * Builds the variables and functions available to step conditions.
+ *
+ * Variables: `branch`, `inWorktree`, `env`, `steps`.
+ * Functions: `changed(...globs)` - true if any changed file matches a glob.
+ *
+ * @param state - Current run state
+ * @returns Expression context
+ */
+export function createConditionContext(
+	state: ConditionState,
+): ExpressionContext {
+	return {
+		variables: {
+			branch: state.branch,
+			inWorktree: state.inWorktree,
+			env: state.env,
+			steps: state.steps ?? {},
+		},
+		functions: {
+			changed: (...patterns: unknown[]) => {
+				const files = state.changedFiles;
+				if (!files) throw new Error("changed() requires a git base ref");
+				const globs = patterns.map((p) => new Bun.Glob(String(p)));
+				return files.some((file) => globs.some((g) => g.match(file)));
+			},
+		},
+	};
+}
@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyInclude,
+	attributeConfig,
+	formatResolvedConfig,
+	mergeConfigs,
+	mergeWorkflows,
+} from "./config-compose";
+
+describe("mergeWorkflows", () => {
+	test("merges steps by name, keeping base order", () => {
+		expect(
+			mergeWorkflows(
+				[
+					{ name: "install", cmd: "bun install" },
+					{ name: "lint", cmd: "biome check", dependsOn: ["install"] },
+				],
+				[
+					{ name: "test", cmd: "bun test" },
+					{ name: "lint", cmd: "eslint ." },
+				],
+			),
+		).toEqual([
+			{ name: "install", cmd: "bun install" },
+			{ name: "lint", cmd: "eslint .", dependsOn: ["install"] },
+			{ name: "test", cmd: "bun test" },
+		]);
+	});
+
+	test("replaces the action of an overriding step", () => {
+		expect(
+			mergeWorkflows(
+				[{ name: "build", cmd: "tsc", timeout: 1000 }],
+				[{ name: "build", bun: { script: "build" } }],
+			),
+		).toEqual([{ name: "build", bun: { script: "build" }, timeout: 1000 }]);
+	});
+
+	test("merges env and params by key in object form", () => {
+		expect(
+			mergeWorkflows({ steps: [], env: { A: "1", B: "1" }, base: "main" }, [
+				{ name: "x", cmd: "true" },
+			]),
+		).toEqual({
+			steps: [{ name: "x", cmd: "true" }],
+			env: { A: "1", B: "1" },
+			base: "main",
+			params: undefined,
+		});
+	});
+});
+
+describe("mergeConfigs", () => {
+	const base = attributeConfig(
+		{
+			workflows: { build: [{ name: "lint", cmd: "biome check" }] },
+			worktree: { hooks: { post_create: [{ cmd: "bun install" }] } },
+		},
+		"base.json",
+	);
+	const app = attributeConfig(
+		{
+			workflows: { build: [{ name: "lint", timeout: 1000 }] },
+			worktree: {
+				hooks: { post_create: [{ type: "copy", from: ".env", to: ".env" }] },
+			},
+		},
+		"app.json",
+	);
+	const merged = mergeConfigs(base, app);
+
+	test("concatenates worktree hooks", () => {
+		expect(merged.config.worktree?.hooks?.post_create).toEqual([
+			{ cmd: "bun install" },
+			{ type: "copy", from: ".env", to: ".env" },
+		]);
+	});
+
+	test("records the origin of each value", () => {
+		expect(merged.origins.get("workflows.build.lint")).toBe("app.json");
+		expect(merged.origins.get("workflows.build.lint.cmd")).toBe("base.json");
+		expect(merged.origins.get("workflows.build.lint.timeout")).toBe("app.json");
+		expect(merged.origins.get("worktree.hooks.post_create.0")).toBe(
+			"base.json",
+		);
+		expect(merged.origins.get("worktree.hooks.post_create.1")).toBe("app.json");
+	});
+
+	test("prints values with their origin", () => {
+		expect(formatResolvedConfig(mergeConfigs(base, app)).split("\n")).toContain(
+			'        "cmd": "biome check",  // base.json',
+		);
+	});
+});
+
+describe("applyInclude", () => {
+	test("prepends included steps and drops include", () => {
+		const shared = attributeConfig(
+			{ workflows: { lint: [{ name: "biome", cmd: "biome check" }] } },
+			"shared.json",
+		);
+		const app = attributeConfig(
+			{
+				workflows: {
+					ci: {
+						include: ["shared.json#lint"],
+						steps: [{ name: "test", cmd: "bun test", dependsOn: ["biome"] }],
+					},
+				},
+			},
+			"app.json",
+		);
+
+		const resolved = applyInclude(app, "ci", [
+			{ name: "lint", source: shared },
+		]);
+		expect(resolved.config.workflows.ci).toEqual({
+			steps: [
+				{ name: "biome", cmd: "biome check" },
+				{ name: "test", cmd: "bun test", dependsOn: ["biome"] },
+			],
+		});
+		expect(resolved.origins.get("workflows.ci.steps.biome.cmd")).toBe(
+			"shared.json",
+		);
+		expect(resolved.origins.get("workflows.ci.steps.test")).toBe("app.json");
+	});
+});
@@ -0,0 +1,343 @@
+/**
+ * Config composition.
+ *
+ * A config can `extends` other config files, and an object-form workflow can
+ * `include` the steps of other workflows. Merging is deterministic:
+ *
+ * - workflows merge by name; `env` and `params` merge by key and other
+ *   workflow fields are replaced
+ * - steps merge by step name: an overriding step replaces the fields it sets,
+ *   including the action, and keeps its position; new steps are appended
+ * - `worktree.hooks` lists are concatenated; other settings are replaced
+ *
+ * Origins record the file that defined each value, keyed by config path with
+ * steps identified by name (e.g. `workflows.build.steps.lint.cmd`).
+ */
+
+import { getAction, getStepAction } from "./actions/registry";
+import type { Config, Step, Workflow, WorktreeConfig } from "./types";
+
+/**
+ * Defining file by config path.
+ */
+export type ConfigOrigins = ReadonlyMap<string, string>;
+
+/**
+ * A config with the file each value came from.
+ */
+export type ResolvedConfig = {
+	readonly config: Config;
+	readonly origins: ConfigOrigins;
+};
+
+/**
+ * Checks whether a config path holds a list of steps.
+ */
+function isStepList(path: readonly string[]): boolean {
+	return (
+		path[0] === "workflows" &&
+		(path.length === 2 || (path.length === 3 && path[2] === "steps"))
+	);
+}
+
+/**
+ * Lists the path segments of the children of a value; steps are keyed by name.
+ */
+function getChildren(
+	value: unknown,
+	path: readonly string[],
+): [string, unknown][] {
+	if (Array.isArray(value)) {
+		return value.map((item, index) => [
+			isStepList(path) ? (item as Step).name : String(index),
+			item,
+		]);
+	}
+	if (typeof value === "object" && value !== null) {
+		return Object.entries(value).filter(([, v]) => v !== undefined);
+	}
+	return [];
+}
+
+/**
+ * Visits every value of a config with its path, parents first.
+ *
+ * @param value - Config or config fragment
+ * @param visit - Receives each value and its path
+ * @param path - Path of `value`
+ */
+export function walkConfig(
+	value: unknown,
+	visit: (path: readonly string[], value: unknown) => void,
+	path: readonly string[] = [],
+): void {
+	visit(path, value);
+	for (const [key, child] of getChildren(value, path)) {
+		walkConfig(child, visit, [...path, key]);
+	}
+}
+
+/**
+ * Attributes every value of a config to one file.
+ *
+ * @param config - Config read from `file`
+ * @param file - Path of the file
+ * @returns Config with origins
+ */
+export function attributeConfig(config: Config, file: string): ResolvedConfig {
+	const origins = new Map<string, string>();
+	walkConfig(config, (path) => origins.set(path.join("."), file));
+	return { config, origins };
+}
+
+/**
+ * Removes the action keys from a step, keeping its other fields.
+ */
+function omitActions(step: Step): Step {
+	return Object.fromEntries(
+		Object.entries(step).filter(([key]) => !getAction(key)),
+	) as Step;
+}
+
+/**
+ * Merges step lists by step name.
+ *
+ * @param base - Base steps
+ * @param override - Steps that replace or extend base steps of the same name
+ * @returns Merged steps in base order, followed by new steps
+ */
+export function mergeSteps(
+	base: readonly Step[],
+	override: readonly Step[],
+): Step[] {
+	const merged = base.map((step) => {
+		const replacement = override.find((s) => s.name === step.name);
+		if (!replacement) return step;
+		// A step runs one action, so an overriding action replaces the base one
+		const kept = getStepAction(replacement) ? omitActions(step) : step;
+		return { ...kept, ...replacement };
+	});
+	const names = new Set(base.map((s) => s.name));
+	return [...merged, ...override.filter((s) => !names.has(s.name))];
+}
+
+/**
+ * Merges two definitions of a workflow.
+ *
+ * @param base - Base definition
+ * @param override - Overriding definition
+ * @returns Array form if both are arrays, otherwise object form
+ */
+export function mergeWorkflows(base: Workflow, override: Workflow): Workflow {
+	if (Array.isArray(base) && Array.isArray(override)) {
+		return mergeSteps(base, override);
+	}
+	const a = Array.isArray(base) ? { steps: base } : base;
+	const b = Array.isArray(override) ? { steps: override } : override;
+	return {
+		...a,
+		...b,
+		steps: mergeSteps(a.steps, b.steps),
+		env: a.env || b.env ? { ...a.env, ...b.env } : undefined,
+		params: a.params || b.params ? { ...a.params, ...b.params } : undefined,
+	};
+}
+
+/**
+ * Merges worktree settings, concatenating hooks.
+ */
+function mergeWorktree(
+	base: WorktreeConfig | undefined,
+	override: WorktreeConfig | undefined,
+): WorktreeConfig | undefined {
+	if (!base || !override) return override ?? base;
+	const hooks = [
+		...(base.hooks?.post_create ?? []),
+		...(override.hooks?.post_create ?? []),
+	];
+	return {
+		defaults:
+			base.defaults || override.defaults
+				? { ...base.defaults, ...override.defaults }
+				: undefined,
+		hooks: hooks.length > 0 ? { post_create: hooks } : undefined,
+	};
+}
+
+/**
+ * Merges an overriding config into a base config.
+ *
+ * @param base - Base config (e.g. from `extends`)
+ * @param override - Config that takes precedence
+ * @returns Merged config with origins
+ */
+export function mergeConfigs(
+	base: ResolvedConfig,
+	override: ResolvedConfig,
+): ResolvedConfig {
+	const workflows: Record<string, Workflow> = { ...base.config.workflows };
+	for (const [name, workflow] of Object.entries(override.config.workflows)) {
+		const existing = workflows[name];
+		workflows[name] = existing ? mergeWorkflows(existing, workflow) : workflow;
+	}
+	const config: Config = {
+		workflows,
+		worktree: mergeWorktree(base.config.worktree, override.config.worktree),
+		cache:
+			base.config.cache || override.config.cache
+				? { ...base.config.cache, ...override.config.cache }
+				: undefined,
+	};
+
+	// Hooks of the override come after the base hooks
+	const hookOffset = base.config.worktree?.hooks?.post_create?.length ?? 0;
+	const hookPrefix = "worktree.hooks.post_create.";
+	const overrideOrigin = (key: string): string | undefined => {
+		if (!key.startsWith(hookPrefix)) return override.origins.get(key);
+		const [index = "", ...rest] = key.slice(hookPrefix.length).split(".");
+		const shifted = Number(index) - hookOffset;
+		return shifted < 0
+			? undefined
+			: override.origins.get([`${hookPrefix}${shifted}`, ...rest].join("."));
+	};
+
+	const origins = new Map<string, string>();
+	walkConfig(config, (path) => {
+		const key = path.join(".");
+		const file = overrideOrigin(key) ?? base.origins.get(key);
+		if (file) origins.set(key, file);
+	});
+	return { config, origins };
+}
+
+/**
+ * Copies the origins of a workflow's steps to another workflow.
+ */
+function rekeySteps(
+	origins: ConfigOrigins,
+	from: string,
+	to: string,
+	arrayForm: boolean,
+): Map<string, string> {
+	const prefix = arrayForm ? `workflows.${from}.` : `workflows.${from}.steps.`;
+	const rekeyed = new Map<string, string>();
+	for (const [key, file] of origins) {
+		if (key.startsWith(prefix)) {
+			rekeyed.set(`workflows.${to}.steps.${key.slice(prefix.length)}`, file);
+		}
+	}
+	return rekeyed;
+}
+
+/**
+ * Prepends the steps of included workflows to a workflow.
+ *
+ * @param resolved - Config containing the workflow
+ * @param name - Workflow name
+ * @param included - Included workflows with origins, in `include` order
+ * @returns Config where the workflow holds the included steps, merged by
+ * step name with its own steps, and no longer has `include`
+ */
+export function applyInclude(
+	resolved: ResolvedConfig,
+	name: string,
+	included: readonly {
+		readonly name: string;
+		readonly source: ResolvedConfig;
+	}[],
+): ResolvedConfig {
+	const workflow = resolved.config.workflows[name];
+	if (!workflow || Array.isArray(workflow)) return resolved;
+
+	let steps: Step[] = [];
+	const includedOrigins = new Map<string, string>();
+	for (const { name: from, source } of included) {
+		const target = source.config.workflows[from];
+		if (!target) continue;
+		const arrayForm = Array.isArray(target);
+		steps = mergeSteps(steps, arrayForm ? target : target.steps);
+		for (const [key, file] of rekeySteps(
+			source.origins,
+			from,
+			name,
+			arrayForm,
+		)) {
+			includedOrigins.set(key, file);
+		}
+	}
+
+	const { include: _, ...rest } = workflow;
+	const config: Config = {
+		...resolved.config,
+		workflows: {
+			...resolved.config.workflows,
+			[name]: { ...rest, steps: mergeSteps(steps, workflow.steps) },
+		},
+	};
+	const origins = new Map<string, string>();
+	walkConfig(config, (path) => {
+		const key = path.join(".");
+		const file = resolved.origins.get(key) ?? includedOrigins.get(key);
+		if (file) origins.set(key, file);
+	});
+	return { config, origins };
+}
+
+/**
+ * Formats a config as JSONC, commenting each value whose origin differs
+ * from its parent's.
+ *
+ * @param resolved - Config with origins
+ * @param formatFile - Formats a file path for display
+ * @returns Printable JSONC
+ */
+export function formatResolvedConfig(
+	resolved: ResolvedConfig,
+	formatFile: (file: string) => string = (file) => file,
+): string {
+	const lines: string[] = [];
+	const rootOrigin = resolved.origins.get("");
+
+	const print = (
+		value: unknown,
+		path: readonly string[],
+		label: string,
+		parentOrigin: string | undefined,
+		comma: string,
+	): void => {
+		const indent = "  ".repeat(path.length);
+		const origin = resolved.origins.get(path.join(".")) ?? parentOrigin;
+		const comment =
+			origin && origin !== parentOrigin ? `  // ${formatFile(origin)}` : "";
+		const children = getChildren(value, path);
+
+		const isContainer = typeof value === "object" && value !== null;
+		const isFlat =
+			Array.isArray(value) &&
+			value.every((item) => typeof item !== "object" || item === null);
+		if (!isContainer || isFlat || children.length === 0) {
+			const text = Array.isArray(value)
+				? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+				: JSON.stringify(value);
+			lines.push(`${indent}${label}${text}${comma}${comment}`);
+			return;
+		}
+
+		const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+		lines.push(`${indent}${label}${open}${comment}`);
+		children.forEach(([key, child], index) => {
+			print(
+				child,
+				[...path, key],
+				Array.isArray(value) ? "" : `${JSON.stringify(key)}: `,
+				origin,
+				index < children.length - 1 ? "," : "",
+			);
+		});
+		lines.push(`${indent}${close}${comma}`);
+	};
+
+	print(resolved.config, [], "", rootOrigin, "");
+	const header = rootOrigin ? `// ${formatFile(rootOrigin)}\n` : "";
+	return `${header}${lines.join("\n")}`;
+}
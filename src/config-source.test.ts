@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import {
+	formatCodeFrame,
+	parseTomlSource,
+	parseYamlSource,
+} from "./config-source";
+
+describe("formatCodeFrame", () => {
+	const content = ["{", '\t"a": [', '\t\t"x" ]', "}"].join("\n");
+
+	test("marks the line and column with surrounding lines", () => {
+		expect(formatCodeFrame(content, { line: 3, column: 3 })).toBe(
+			['  2 | \t"a": [', '> 3 | \t\t"x" ]', "    | \t\t^", "  4 | }"].join(
+				"\n",
+			),
+		);
+	});
+
+	test("omits the caret when only the line is known", () => {
+		expect(formatCodeFrame(content, { line: 1 })).toBe(
+			["> 1 | {", '  2 | \t"a": ['].join("\n"),
+		);
+	});
+});
+
+describe("parseYamlSource", () => {
+	const source = parseYamlSource(
+		[
+			"workflows:",
+			"  build:",
+			"    - name: install",
+			"      cmd: bun install",
+			"    - name: compile",
+			"      dependsOn: [install]",
+		].join("\n"),
+	);
+
+	test("parses data", () => {
+		expect(source.data).toEqual({
+			workflows: {
+				build: [
+					{ name: "install", cmd: "bun install" },
+					{ name: "compile", dependsOn: ["install"] },
+				],
+			},
+		});
+	});
+
+	test("locates paths and their closest ancestor", () => {
+		expect(source.locate(["workflows", "build", 1, "dependsOn", 0])).toEqual({
+			line: 6,
+			column: 19,
+		});
+		expect(source.locate(["workflows", "build", 0, "missing"])).toEqual({
+			line: 3,
+			column: 7,
+		});
+		expect(source.locate(["nope"])).toBeUndefined();
+	});
+
+	test("reports syntax errors with line and column", () => {
+		expect(() => parseYamlSource("a:\n  - b\n c: d\n")).toThrow(
+			/^line 3, column 1: All mapping items/,
+		);
+	});
+});
+
+describe("parseTomlSource", () => {
+	const source = parseTomlSource(
+		[
+			"[workflows.ci]",
+			'base = "main"',
+			"",
+			"[[workflows.ci.steps]]",
+			'name = "lint"',
+			"",
+			"[[workflows.ci.steps]]",
+			'name = "test"',
+			"timeout = 1000",
+			"",
+			"[workflows.ci.steps.resources]",
+			'mutex = "db"',
+		].join("\n"),
+	);
+
+	test("parses data", () => {
+		expect(source.data).toEqual({
+			workflows: {
+				ci: {
+					base: "main",
+					steps: [
+						{ name: "lint" },
+						{ name: "test", timeout: 1000, resources: { mutex: "db" } },
+					],
+				},
+			},
+		});
+	});
+
+	test("locates keys, array tables and sub-tables", () => {
+		expect(source.locate(["workflows", "ci", "base"])).toEqual({
+			line: 2,
+			column: 1,
+		});
+		expect(source.locate(["workflows", "ci", "steps", 1, "timeout"])).toEqual({
+			line: 9,
+			column: 1,
+		});
+		expect(source.locate(["workflows", "ci", "steps", 0, "cmd"])).toEqual({
+			line: 4,
+			column: 1,
+		});
+		expect(
+			source.locate(["workflows", "ci", "steps", 1, "resources", "mutex"]),
+		).toEqual({ line: 12, column: 1 });
+	});
+
+	test("reports the line of syntax errors", () => {
+		expect(() => parseTomlSource('a = 1\nb = \nc = "x"\n')).toThrow(
+			/^line 2: Missing value after '='/,
+		);
+	});
+});
@@ -0,0 +1,255 @@
+/**
+ * YAML and TOML config sources.
+ *
+ * Besides the parsed data, each source can map a config path (as reported by
+ * Zod) back to a position in the file, so schema errors name the offending
+ * line and column. JSONC sources live in `jsonc.ts`.
+ */
+
+import { isNode, LineCounter, parseDocument } from "yaml";
+
+/**
+ * 1-based position in a source file.
+ */
+export type SourceLocation = {
+	readonly line: number;
+	/** Omitted when only the line is known */
+	readonly column?: number;
+};
+
+/**
+ * Finds where a config path is defined.
+ */
+export type SourceLocator = (
+	path: readonly PropertyKey[],
+) => SourceLocation | undefined;
+
+/**
+ * A parsed config file.
+ */
+export type ConfigSource = {
+	readonly data: unknown;
+	readonly locate: SourceLocator;
+};
+
+/**
+ * Formats a location as `line 3, column 7`.
+ *
+ * @param location - Source location
+ * @returns Human-readable position
+ */
+export function formatSourceLocation(location: SourceLocation): string {
+	return location.column === undefined
+		? `line ${location.line}`
+		: `line ${location.line}, column ${location.column}`;
+}
+
+/**
+ * A syntax error at a known position in a config file.
+ */
+export class ConfigSyntaxError extends Error {
+	/**
+	 * @param reason - What is wrong, without the position
+	 * @param location - Where the error was found
+	 */
+	constructor(
+		readonly reason: string,
+		readonly location: SourceLocation,
+	) {
+		super(`${formatSourceLocation(location)}: ${reason}`);
+		this.name = "ConfigSyntaxError";
+	}
+}
+
+/**
+ * Formats the lines around a location, marking the line and, when the column
+ * is known, the column.
+ *
+ * @param content - Source text
+ * @param location - Position to show
+ * @returns Code frame, e.g.
+ * ```
+ *   2 |   "build": [
+ * > 3 |     { "name": 1 }
+ *     |               ^
+ * ```
+ */
+export function formatCodeFrame(
+	content: string,
+	location: SourceLocation,
+): string {
+	const lines = content.split(/\r?\n/);
+	const first = Math.max(1, location.line - 1);
+	const last = Math.min(lines.length, location.line + 1);
+	const width = String(last).length;
+
+	const frame: string[] = [];
+	for (let number = first; number <= last; number++) {
+		const text = lines[number - 1] ?? "";
+		const marker = number === location.line ? ">" : " ";
+		frame.push(
+			`${marker} ${String(number).padStart(width)} | ${text}`.trimEnd(),
+		);
+		if (number === location.line && location.column !== undefined) {
+			// Keep tabs so the caret lines up with the text above
+			const indent = text.slice(0, location.column - 1).replace(/[^\t]/g, " ");
+			frame.push(`  ${" ".repeat(width)} | ${indent}^`);
+		}
+	}
+	return frame.join("\n");
+}
+
+/**
+ * Looks a path up, falling back to its closest located ancestor (e.g. the
+ * step that is missing a required key).
+ */
+function locateClosest(
+	path: readonly PropertyKey[],
+	lookup: (path: readonly PropertyKey[]) => SourceLocation | undefined,
+): SourceLocation | undefined {
+	for (let length = path.length; length > 0; length--) {
+		const location = lookup(path.slice(0, length));
+		if (location) return location;
+	}
+	return undefined;
+}
+
+/**
+ * Parses a YAML config.
+ *
+ * @param content - File contents
+ * @returns Parsed data and a locator for its paths
+ * @throws ConfigSyntaxError for the first syntax error
+ */
+export function parseYamlSource(content: string): ConfigSource {
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+
+	const [error] = doc.errors;
+	if (error) {
+		const { line, col } = lineCounter.linePos(error.pos[0]);
+		throw new ConfigSyntaxError(error.message, { line, column: col });
+	}
+
+	return {
+		data: doc.toJS(),
+		locate: (path) =>
+			locateClosest(path, (prefix) => {
+				const node = doc.getIn(prefix, true);
+				if (!isNode(node) || !node.range) return undefined;
+				const { line, col } = lineCounter.linePos(node.range[0]);
+				return { line, column: col };
+			}),
+	};
+}
+
+/**
+ * Splits a TOML key (`a."b.c".d`) into its parts.
+ */
+function splitTomlKey(key: string): string[] {
+	const parts: string[] = [];
+	for (const match of key.matchAll(/\s*(?:"([^"]*)"|'([^']*)'|([\w-]+))\s*/g)) {
+		parts.push(match[1] ?? match[2] ?? match[3] ?? "");
+	}
+	return parts;
+}
+
+/**
+ * Indexes the line of every table header and `key = value` line in a TOML
+ * file by config path. Values inside inline tables and arrays resolve to the
+ * line of their key.
+ */
+function indexTomlPaths(content: string): Map<string, SourceLocation> {
+	const locations = new Map<string, SourceLocation>();
+	const arrayCounts = new Map<string, number>();
+	let table: string[] = [];
+
+	// Inserts the current index of any array table along a header path
+	const resolveTable = (parts: readonly string[]): string[] => {
+		const resolved: string[] = [];
+		for (const part of parts) {
+			resolved.push(part);
+			const count = arrayCounts.get(resolved.join("."));
+			if (count !== undefined) resolved.push(String(count - 1));
+		}
+		return resolved;
+	};
+
+	content.split(/\r?\n/).forEach((text, index) => {
+		const line = index + 1;
+		const arrayTable = /^\s*\[\[([^\]]+)\]\]/.exec(text);
+		if (arrayTable) {
+			const parts = splitTomlKey(arrayTable[1] ?? "");
+			const parent = resolveTable(parts.slice(0, -1));
+			const key = [...parent, ...parts.slice(-1)].join(".");
+			const count = (arrayCounts.get(key) ?? 0) + 1;
+			arrayCounts.set(key, count);
+			table = [...parent, ...parts.slice(-1), String(count - 1)];
+			locations.set(table.join("."), { line, column: text.indexOf("[") + 1 });
+			return;
+		}
+
+		const header = /^\s*\[([^\]]+)\]/.exec(text);
+		if (header) {
+			table = resolveTable(splitTomlKey(header[1] ?? ""));
+			locations.set(table.join("."), { line, column: text.indexOf("[") + 1 });
+			return;
+		}
+
+		const assignment = /^(\s*)((?:"[^"]*"|'[^']*'|[\w.\s-])+?)\s*=/.exec(text);
+		if (assignment) {
+			const path = [...table, ...splitTomlKey(assignment[2] ?? "")];
+			const column = (assignment[1]?.length ?? 0) + 1;
+			for (let length = table.length + 1; length <= path.length; length++) {
+				const key = path.slice(0, length).join(".");
+				if (!locations.has(key)) locations.set(key, { line, column });
+			}
+		}
+	});
+	return locations;
+}
+
+/**
+ * Finds the line of a TOML syntax error: the line after the longest prefix
+ * of the file that still parses. Errors inside a multi-line value point to
+ * the line where the value starts.
+ */
+function findTomlErrorLine(content: string): number {
+	const lines = content.split(/\r?\n/);
+	let valid = 0;
+	for (let length = 1; length <= lines.length; length++) {
+		try {
+			Bun.TOML.parse(lines.slice(0, length).join("\n"));
+			valid = length;
+		} catch {
+			// Incomplete multi-line values parse again once they are closed
+		}
+	}
+	return Math.min(valid + 1, lines.length);
+}
+
+/**
+ * Parses a TOML config with Bun's built-in parser.
+ *
+ * @param content - File contents
+ * @returns Parsed data and a locator for its paths
+ * @throws ConfigSyntaxError for the first syntax error, located by line
+ */
+export function parseTomlSource(content: string): ConfigSource {
+	let data: unknown;
+	try {
+		data = Bun.TOML.parse(content);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		throw new ConfigSyntaxError(message.replace(/^TOML Parse error: /, ""), {
+			line: findTomlErrorLine(content),
+		});
+	}
+
+	const locations = indexTomlPaths(content);
+	return {
+		data,
+		locate: (path) =>
+			locateClosest(path, (prefix) => locations.get(prefix.join("."))),
+	};
+}
@@ -0,0 +1,104 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${env:*} and ${git.*} templates
+import { describe, expect, test } from "bun:test";
+import {
+	interpolateConfig,
+	interpolateTemplate,
+	type TemplateContext,
+} from "./config-template";
+
+const context: TemplateContext = {
+	env: { HOME: "/home/dev", EMPTY: "" },
+	git: { root: "/repo", branch: "feature/x", sha: "abc123" },
+	worktree: { name: "repo" },
+};
+
+describe("interpolateTemplate", () => {
+	test("replaces env, git and worktree variables", () => {
+		expect(
+			interpolateTemplate(
+				"cd ${git.root} && echo ${git.branch}@${git.sha} in ${worktree.name} ${env:HOME}",
+				context,
+			),
+		).toBe("cd /repo && echo feature/x@abc123 in repo /home/dev");
+	});
+
+	test("uses defaults for unset or empty env variables", () => {
+		expect(interpolateTemplate("${env:PORT:-3000}", context)).toBe("3000");
+		expect(interpolateTemplate("${env:EMPTY:-x}", context)).toBe("x");
+		expect(interpolateTemplate("${env:EMPTY}", context)).toBe("");
+	});
+
+	test("leaves shell expansions alone", () => {
+		expect(
+			interpolateTemplate("echo ${HOME} ${{ params.a }} $PATH", context),
+		).toBe("echo ${HOME} ${{ params.a }} $PATH");
+	});
+
+	test("reports undefined and unknown variables", () => {
+		expect(() => interpolateTemplate("${env:PORT}", context)).toThrow(
+			'Environment variable "PORT" is not set',
+		);
+		expect(() => interpolateTemplate("${workflow.name}", context)).toThrow(
+			"${workflow.name} is not available here",
+		);
+		expect(() => interpolateTemplate("${git.tag}", context)).toThrow(
+			"Unknown variable ${git.tag}",
+		);
+	});
+});
+
+describe("interpolateConfig", () => {
+	test("interpolates steps, base_dir and hook commands", () => {
+		const config = interpolateConfig(
+			{
+				workflows: {
+					build: [
+						{ name: "a", cmd: "echo ${workflow.name}" },
+						{
+							name: "b",
+							"worktree:cp": { from: "${env:HOME}", files: ["${git.sha}"] },
+						},
+					],
+				},
+				worktree: {
+					defaults: { base_dir: "../${worktree.name}-worktrees" },
+					hooks: {
+						post_create: [
+							{ cmd: "echo ${git.branch}" },
+							{ type: "copy", from: "${env:HOME}", to: ".env" },
+						],
+					},
+				},
+			},
+			context,
+		);
+		expect(config.workflows.build).toEqual([
+			{ name: "a", cmd: "echo build" },
+			{
+				name: "b",
+				"worktree:cp": { from: "/home/dev", files: ["abc123"] },
+			},
+		]);
+		expect(config.worktree?.defaults?.base_dir).toBe("../repo-worktrees");
+		expect(config.worktree?.hooks?.post_create).toEqual([
+			{ cmd: "echo feature/x" },
+			{ type: "copy", from: "${env:HOME}", to: ".env" },
+		]);
+	});
+
+	test("names the config path and skips other workflows", () => {
+		const config = {
+			workflows: {
+				build: { steps: [{ name: "a", cmd: "echo ${env:TOKEN}" }] },
+				test: [{ name: "t", cmd: "bun test" }],
+			},
+		};
+		expect(() => interpolateConfig(config, context)).toThrow(
+			'Environment variable "TOKEN" is not set at "workflows.build.steps.0.cmd"',
+		);
+		expect(
+			interpolateConfig(config, context, { workflows: ["test"] }).workflows
+				.build,
+		).toEqual(config.workflows.build);
+	});
+});
@@ -0,0 +1,268 @@
+/**
+ * Config value templates.
+ *
+ * After loading, `${env:NAME}`, `${env:NAME:-default}`, `${git.root}`,
+ * `${git.branch}`, `${git.sha}`, `${worktree.name}` and `${workflow.name}`
+ * are replaced in step `cmd`, `worktree:cp.from`/`files`,
+ * `worktree.defaults.base_dir` and hook commands. Other `${...}`
+ * expressions are left to the shell.
+ */
+
+import { basename } from "node:path";
+import { GitUtil } from "./git-util";
+import type { Config, Step, Workflow, WorktreeConfig } from "./types";
+
+/**
+ * Values available to templates; unavailable values are undefined.
+ */
+export type TemplateContext = {
+	readonly env: Readonly<Record<string, string | undefined>>;
+	readonly git: {
+		readonly root?: string;
+		readonly branch?: string;
+		readonly sha?: string;
+	};
+	readonly worktree: {
+		/** Directory name of the current checkout */
+		readonly name?: string;
+	};
+};
+
+/**
+ * Which parts of a config to interpolate.
+ */
+export type InterpolateConfigOptions = {
+	/** Workflows to interpolate (default: all) */
+	readonly workflows?: readonly string[];
+	/** Whether to interpolate `worktree` settings (default: true) */
+	readonly worktree?: boolean;
+};
+
+const TEMPLATE_PATTERN =
+	/\$\{(?:env:([A-Za-z_]\w*)(?::-([^}]*))?|((?:git|worktree|workflow)\.[\w.]*))\}/g;
+
+/**
+ * Reads the template context for the current checkout.
+ *
+ * @param gitRoot - Root of the current checkout
+ * @param env - Environment variables (default: `process.env`)
+ * @returns Context; git values that cannot be read (e.g. a detached HEAD
+ * has no branch) are left undefined
+ */
+export async function getTemplateContext(
+	gitRoot: string,
+	env: Readonly<Record<string, string | undefined>> = process.env,
+): Promise<TemplateContext> {
+	const [branch, sha] = await Promise.all([
+		GitUtil.getCurrentBranch().catch(() => ""),
+		GitUtil.getHeadSha().catch(() => ""),
+	]);
+	return {
+		env,
+		git: { root: gitRoot, branch: branch || undefined, sha: sha || undefined },
+		worktree: { name: basename(gitRoot) },
+	};
+}
+
+/**
+ * Replaces templates in a config value.
+ *
+ * @param text - Config value
+ * @param context - Template values
+ * @param workflowName - Workflow the value belongs to, if any
+ * @returns Interpolated value
+ * @throws Error if a variable is unknown or undefined and has no default
+ */
+export function interpolateTemplate(
+	text: string,
+	context: TemplateContext,
+	workflowName?: string,
+): string {
+	return text.replace(
+		TEMPLATE_PATTERN,
+		(
+			match,
+			envName: string | undefined,
+			fallback: string | undefined,
+			variable: string | undefined,
+		) => {
+			if (envName !== undefined) {
+				const value = context.env[envName];
+				// Like the shell, `:-` also replaces an empty value
+				if (fallback !== undefined) return value || fallback;
+				if (value === undefined) {
+					throw new Error(`Environment variable "${envName}" is not set`);
+				}
+				return value;
+			}
+
+			const values: Record<string, string | undefined> = {
+				"git.root": context.git.root,
+				"git.branch": context.git.branch,
+				"git.sha": context.git.sha,
+				"worktree.name": context.worktree.name,
+				"workflow.name": workflowName,
+			};
+			if (variable === undefined || !Object.hasOwn(values, variable)) {
+				throw new Error(`Unknown variable ${match}`);
+			}
+			const value = values[variable];
+			if (value === undefined) {
+				throw new Error(`${match} is not available here`);
+			}
+			return value;
+		},
+	);
+}
+
+/**
+ * Interpolates a value, naming its config path in errors.
+ */
+function interpolateAt(
+	text: string,
+	path: readonly (string | number)[],
+	context: TemplateContext,
+	workflowName?: string,
+): string {
+	try {
+		return interpolateTemplate(text, context, workflowName);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		throw new Error(`${message} at "${path.join(".")}"`);
+	}
+}
+
+/**
+ * Interpolates the templated fields of a step.
+ */
+function interpolateStep(
+	step: Step,
+	path: readonly (string | number)[],
+	context: TemplateContext,
+	workflowName: string,
+): Step {
+	const copy = step["worktree:cp"];
+	return {
+		...step,
+		cmd:
+			step.cmd === undefined
+				? undefined
+				: interpolateAt(step.cmd, [...path, "cmd"], context, workflowName),
+		"worktree:cp":
+			copy === undefined
+				? undefined
+				: {
+						...copy,
+						from: interpolateAt(
+							copy.from,
+							[...path, "worktree:cp", "from"],
+							context,
+							workflowName,
+						),
+						files: copy.files.map((file, index) =>
+							interpolateAt(
+								file,
+								[...path, "worktree:cp", "files", index],
+								context,
+								workflowName,
+							),
+						),
+					},
+	};
+}
+
+/**
+ * Interpolates the steps of a workflow.
+ */
+function interpolateWorkflow(
+	workflow: Workflow,
+	name: string,
+	context: TemplateContext,
+): Workflow {
+	if (Array.isArray(workflow)) {
+		return workflow.map((step, index) =>
+			interpolateStep(step, ["workflows", name, index], context, name),
+		);
+	}
+	return {
+		...workflow,
+		steps: workflow.steps.map((step, index) =>
+			interpolateStep(step, ["workflows", name, "steps", index], context, name),
+		),
+	};
+}
+
+/**
+ * Interpolates `base_dir` and hook commands.
+ */
+function interpolateWorktree(
+	worktree: WorktreeConfig,
+	context: TemplateContext,
+): WorktreeConfig {
+	const baseDir = worktree.defaults?.base_dir;
+	const hooks = worktree.hooks?.post_create;
+	return {
+		...worktree,
+		defaults:
+			baseDir === undefined
+				? worktree.defaults
+				: {
+						...worktree.defaults,
+						base_dir: interpolateAt(
+							baseDir,
+							["worktree", "defaults", "base_dir"],
+							context,
+						),
+					},
+		hooks:
+			hooks === undefined
+				? worktree.hooks
+				: {
+						...worktree.hooks,
+						post_create: hooks.map((hook, index) =>
+							"cmd" in hook
+								? {
+										...hook,
+										cmd: interpolateAt(
+											hook.cmd,
+											["worktree", "hooks", "post_create", index, "cmd"],
+											context,
+										),
+									}
+								: hook,
+						),
+					},
+	};
+}
+
+/**
+ * Replaces templates in a loaded config.
+ *
+ * @param config - Loaded config
+ * @param context - Template values
+ * @param options - Parts to interpolate; others are returned unchanged
+ * @returns Interpolated config
+ * @throws Error naming the config path of an undefined variable
+ */
+export function interpolateConfig(
+	config: Config,
+	context: TemplateContext,
+	options: InterpolateConfigOptions = {},
+): Config {
+	const names = new Set(options.workflows ?? Object.keys(config.workflows));
+	return {
+		...config,
+		workflows: Object.fromEntries(
+			Object.entries(config.workflows).map(([name, workflow]) => [
+				name,
+				names.has(name)
+					? interpolateWorkflow(workflow, name, context)
+					: workflow,
+			]),
+		),
+		worktree:
+			config.worktree && options.worktree !== false
+				? interpolateWorktree(config.worktree, context)
+				: config.worktree,
+	};
+}
@@ -1,5 +1,15 @@
-import { describe, expect, test } from "bun:test";
-import { getSteps, stripJsonComments } from "./config";
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	ConfigSchemaError,
+	findConfigFiles,
+	getSteps,
+	loadConfig,
+	locateConfigValue,
+	stripJsonComments,
+} from "./config";
 import type { Step, Workflow } from "./types";
 
 describe("stripJsonComments", () => {
@@ -66,6 +76,13 @@ describe("stripJsonComments", () => {
 		expect(stripJsonComments("")).toBe("");
 	});
 
+	test("keeps comment markers inside strings", () => {
+		const jsonc = '{ "cmd": "curl http://localhost/*" } // comment';
+		expect(JSON.parse(stripJsonComments(jsonc))).toEqual({
+			cmd: "curl http://localhost/*",
+		});
+	});
+
 	test("handles input without comments", () => {
 		const json = '{"key": "value"}';
 		expect(stripJsonComments(json)).toBe(json);
@@ -103,3 +120,330 @@ describe("getSteps", () => {
 		expect(getSteps(workflow)).toEqual([]);
 	});
 });
+
+describe("loadConfig", () => {
+	const root = mkdtempSync(join(tmpdir(), "ot-config-"));
+	afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+	test("loads and validates the default export of a TypeScript config", async () => {
+		const path = join(root, "workflow.config.ts");
+		writeFileSync(
+			path,
+			[
+				`import { defineConfig } from ${JSON.stringify(join(import.meta.dir, "config"))};`,
+				`const packages = ["api", "web"];`,
+				"export default defineConfig({",
+				"  workflows: {",
+				`    test: packages.map((pkg) => ({ name: pkg, cmd: "bun test " + pkg })),`,
+				"  },",
+				"});",
+			].join("\n"),
+		);
+
+		const config = await loadConfig(path, root);
+		expect(config.workflows.test).toEqual([
+			{ name: "api", cmd: "bun test api" },
+			{ name: "web", cmd: "bun test web" },
+		]);
+	});
+
+	test("reports schema errors and missing default exports", async () => {
+		const invalid = join(root, "invalid.config.js");
+		writeFileSync(
+			invalid,
+			"export default { workflows: { a: [{ cmd: 1 }] } };",
+		);
+		expect(loadConfig(invalid, root)).rejects.toThrow(
+			"Invalid config in invalid.config.js",
+		);
+
+		const named = join(root, "named.config.js");
+		writeFileSync(named, "export const config = { workflows: {} };");
+		expect(loadConfig(named, root)).rejects.toThrow(
+			"Config must be the default export",
+		);
+	});
+
+	test("merges extended configs and included workflows", async () => {
+		writeFileSync(
+			join(root, "base.json"),
+			JSON.stringify({
+				workflows: {
+					build: [
+						{ name: "install", cmd: "bun install" },
+						{ name: "compile", cmd: "tsc", dependsOn: ["install"] },
+					],
+				},
+			}),
+		);
+		writeFileSync(
+			join(root, "app.json"),
+			JSON.stringify({
+				extends: ["./base.json"],
+				workflows: {
+					build: [{ name: "compile", cmd: "tsc -b" }],
+					ci: {
+						include: ["build"],
+						steps: [{ name: "test", cmd: "bun test" }],
+					},
+				},
+			}),
+		);
+
+		const config = await loadConfig(join(root, "app.json"), root);
+		expect(config.workflows.build).toEqual([
+			{ name: "install", cmd: "bun install" },
+			{ name: "compile", cmd: "tsc -b", dependsOn: ["install"] },
+		]);
+		expect(config.workflows.ci).toEqual({
+			steps: [
+				{ name: "install", cmd: "bun install" },
+				{ name: "compile", cmd: "tsc -b", dependsOn: ["install"] },
+				{ name: "test", cmd: "bun test" },
+			],
+		});
+	});
+
+	test("validates the merged steps", async () => {
+		writeFileSync(
+			join(root, "bun-app.json"),
+			JSON.stringify({
+				extends: ["./base.json"],
+				workflows: {
+					build: [{ name: "compile", uses: "bun", with: { script: "build" } }],
+				},
+			}),
+		);
+		const config = await loadConfig(join(root, "bun-app.json"), root);
+		expect(getSteps(config.workflows.build ?? [])[1]).toEqual({
+			name: "compile",
+			bun: { script: "build" },
+			dependsOn: ["install"],
+		});
+	});
+
+	test("lets overriding steps omit the action", async () => {
+		writeFileSync(
+			join(root, "partial.json"),
+			JSON.stringify({
+				extends: ["./base.json"],
+				workflows: {
+					build: [
+						{ name: "lint", cmd: "biome check" },
+						{ name: "compile", dependsOn: ["install", "lint"] },
+					],
+				},
+			}),
+		);
+		const config = await loadConfig(join(root, "partial.json"), root);
+		expect(config.workflows.build).toEqual([
+			{ name: "install", cmd: "bun install" },
+			{ name: "compile", cmd: "tsc", dependsOn: ["install", "lint"] },
+			{ name: "lint", cmd: "biome check" },
+		]);
+
+		writeFileSync(
+			join(root, "orphan.json"),
+			JSON.stringify({
+				extends: ["./base.json"],
+				workflows: { build: [{ name: "test", timeout: 1000 }] },
+			}),
+		);
+		expect(loadConfig(join(root, "orphan.json"), root)).rejects.toThrow(
+			'At "workflows.build.2": Step needs an action',
+		);
+	});
+
+	test("loads legacy workflows named like config keys", async () => {
+		const path = join(root, "legacy-cache.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				cache: [{ name: "warm", cmd: "bun run warm" }],
+				build: [{ name: "compile", cmd: "tsc" }],
+			}),
+		);
+		const config = await loadConfig(path, root);
+		expect(config.workflows.cache).toEqual([
+			{ name: "warm", cmd: "bun run warm" },
+		]);
+		expect(config.cache).toBeUndefined();
+		expect(
+			await locateConfigValue(path, ["workflows", "cache", "warm"]),
+		).toEqual({ line: 1, column: 11 });
+	});
+
+	test("reports syntax errors with file, line and column", async () => {
+		const path = join(root, "syntax.jsonc");
+		writeFileSync(path, '{\n  "workflows": {\n    "a": [}\n  }\n}');
+		expect(loadConfig(path, root)).rejects.toThrow(
+			`Failed to parse ${path}:3:11: Unexpected }, expected a value\n\n  2 |   "workflows": {\n> 3 |     "a": [}\n    |           ^\n  4 |   }`,
+		);
+	});
+
+	test("shows a code frame for schema errors", async () => {
+		const path = join(root, "schema.json");
+		writeFileSync(
+			path,
+			'{\n  "workflows": {\n    "a": [{ "name": "x", "cmd": 1, },],\n  },\n}',
+		);
+		expect(loadConfig(path, root)).rejects.toThrow(
+			'At "workflows.a.0.cmd" (line 3, column 33): Invalid input: expected string, received number\n        2 |   "workflows": {\n      > 3 |     "a": [{ "name": "x", "cmd": 1, },],\n          |                                 ^',
+		);
+	});
+
+	test("keeps each violation and the valid parts of an invalid config", async () => {
+		const path = join(root, "partly.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				workflows: {
+					a: [
+						{ name: "x", cmd: 1 },
+						{
+							name: "y",
+							cmd: "y",
+							bun: { script: "b" },
+							dependsOn: ["x", "z"],
+						},
+					],
+				},
+			}),
+		);
+		const error = await loadConfig(path, root).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(ConfigSchemaError);
+		const { problems, config, origins } = error as ConfigSchemaError;
+		expect(problems.map((p) => p.path.join("."))).toEqual([
+			"workflows.a.x.cmd",
+			"workflows.a.y.bun",
+		]);
+		expect(config?.workflows.a).toEqual([
+			{ name: "x" },
+			{ name: "y", cmd: "y", dependsOn: ["x", "z"] },
+		]);
+		expect(origins.get("")).toBe(path);
+	});
+
+	test("requires exactly one action per step", async () => {
+		const path = join(root, "actions.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				workflows: {
+					a: [
+						{ name: "x", cmd: "ls", bun: { script: "build" } },
+						{ name: "y" },
+						{ name: "z", uses: "deploy" },
+					],
+				},
+			}),
+		);
+		const error = await loadConfig(path, root).catch((e: Error) => e);
+		expect(String(error)).toContain(
+			'At "workflows.a.0.bun" (line 1, column 49): Step defines cmd and bun; use exactly one action',
+		);
+		expect(String(error)).toContain(
+			"Step needs an action: one of cmd, worktree:cp, bun, workflow",
+		);
+		expect(String(error)).toContain(
+			'At "workflows.a.2.uses" (line 1, column 101): Unknown action "deploy"',
+		);
+	});
+
+	test("resolves uses to the action key", async () => {
+		const path = join(root, "uses.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				workflows: {
+					a: [
+						{ name: "test", uses: "bun", with: { script: "test" } },
+						{ name: "ls", uses: "cmd", with: "ls" },
+					],
+					b: [{ name: "bad", uses: "bun", with: { script: 1 } }],
+				},
+			}),
+		);
+		expect(loadConfig(path, root)).rejects.toThrow(
+			'At "workflows.b.0.with.script"',
+		);
+
+		writeFileSync(
+			path,
+			JSON.stringify({
+				workflows: {
+					a: [
+						{ name: "test", uses: "bun", with: { script: "test" } },
+						{ name: "ls", uses: "cmd", with: "ls" },
+					],
+				},
+			}),
+		);
+		const config = await loadConfig(path, root);
+		expect(config.workflows.a).toEqual([
+			{ name: "test", bun: { script: "test" } },
+			{ name: "ls", cmd: "ls" },
+		]);
+	});
+
+	test("reports circular extends", async () => {
+		writeFileSync(
+			join(root, "a.json"),
+			JSON.stringify({ extends: ["./b.json"], workflows: {} }),
+		);
+		writeFileSync(
+			join(root, "b.json"),
+			JSON.stringify({ extends: ["./a.json"], workflows: {} }),
+		);
+		expect(loadConfig(join(root, "a.json"), root)).rejects.toThrow(
+			"Circular extends",
+		);
+	});
+});
+
+describe("findConfigFiles", () => {
+	const root = mkdtempSync(join(tmpdir(), "ot-find-"));
+	afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+	test("prefers existing JSON configs over YAML and TOML", async () => {
+		for (const name of ["workflow.toml", "workflow.yaml", "workflows.json"]) {
+			writeFileSync(join(root, name), "");
+		}
+		const cwd = process.cwd();
+		process.chdir(root);
+		try {
+			expect(await findConfigFiles(undefined, root)).toEqual(
+				["workflows.json", "workflow.yaml", "workflow.toml"].map((name) =>
+					join(root, name),
+				),
+			);
+		} finally {
+			process.chdir(cwd);
+		}
+	});
+});
+
+describe("locateConfigValue", () => {
+	const root = mkdtempSync(join(tmpdir(), "ot-locate-"));
+	afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+	test("finds steps by name, also in legacy configs", async () => {
+		const legacy = join(root, "workflows.json");
+		writeFileSync(
+			legacy,
+			'{\n  "build": [\n    { "name": "a" },\n    { "name": "b", "dependsOn": ["x"] }\n  ]\n}',
+		);
+		expect(
+			await locateConfigValue(legacy, [
+				"workflows",
+				"build",
+				"b",
+				"dependsOn",
+				"0",
+			]),
+		).toEqual({ line: 4, column: 34 });
+		expect(await locateConfigValue(join(root, "missing.json"), [])).toBe(
+			undefined,
+		);
+	});
+});
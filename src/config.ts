@@ -3,139 +3,709 @@
  */
 
 import { existsSync } from "node:fs";
-import { basename, dirname, join } from "node:path";
+import { basename, dirname, join, relative, resolve } from "node:path";
 import { ZodError } from "zod";
-import { formatZodError } from "./formatting";
-import type { Config, Step, Workflow } from "./types";
-import { ConfigSchema } from "./types";
+import { getActionSchemas } from "./actions/registry";
+import {
+	applyInclude,
+	attributeConfig,
+	type ConfigOrigins,
+	mergeConfigs,
+	type ResolvedConfig,
+} from "./config-compose";
+import {
+	type ConfigSource,
+	ConfigSyntaxError,
+	formatCodeFrame,
+	parseTomlSource,
+	parseYamlSource,
+	type SourceLocation,
+	type SourceLocator,
+} from "./config-source";
+import { expandUnionIssues, formatZodError } from "./formatting";
+import { parseJsoncSource, tokenizeJsonc } from "./jsonc";
+import { loadPlugins } from "./plugins";
+import type { Config, ConfigInput, Param, Step, Workflow } from "./types";
+import { createConfigSchema } from "./types";
+import type { ConfigProblem } from "./validate";
 
 /**
- * Loads configuration from potential config files.
+ * Config file names searched in each directory, in discovery order. YAML
+ * and TOML come last, so adding one never replaces an existing JSON config.
+ */
+const CONFIG_FILE_NAMES = [
+	"workflow.config.ts",
+	"workflow.config.js",
+	"workflow.json",
+	"workflow.jsonc",
+	"workflows.json",
+	"workflows.jsonc",
+	"workflow.yaml",
+	"workflow.yml",
+	"workflow.toml",
+];
+
+/**
+ * Declares a config in `workflow.config.ts` with full type checking.
  *
- * @param explicitPath - Explicit path to config file provided by user
- * @param gitRoot - Root of the git repository
- * @returns Parsed configuration
+ * @param config - The config; validated like JSON configs when loaded
+ * @returns The config unchanged
+ *
+ * @example
+ * ```ts
+ * // workflow.config.ts
+ * import { defineConfig } from "openturbo";
+ *
+ * const packages = ["api", "web"];
+ * export default defineConfig({
+ *   workflows: {
+ *     test: packages.map((pkg) => ({ name: pkg, cmd: `bun test apps/${pkg}` })),
+ *   },
+ * });
+ * ```
  */
-export async function loadConfig(
+export function defineConfig(config: ConfigInput): ConfigInput {
+	return config;
+}
+
+/**
+ * Checks whether a raw config merges its steps over other steps, through
+ * `extends` or a workflow's `include`. Such steps may only override fields,
+ * so the one-action rule is checked on the composed config instead.
+ */
+function mergesSteps(config: unknown): boolean {
+	const { extends: bases, workflows } = (config ?? {}) as {
+		readonly extends?: unknown;
+		readonly workflows?: unknown;
+	};
+	if (Array.isArray(bases) && bases.length > 0) return true;
+	return (
+		typeof workflows === "object" &&
+		workflows !== null &&
+		Object.values(workflows).some(
+			(workflow: unknown) =>
+				typeof workflow === "object" &&
+				workflow !== null &&
+				Array.isArray((workflow as { include?: unknown }).include),
+		)
+	);
+}
+
+/**
+ * Schema violations in a config, with the parts that could still be read.
+ */
+export class ConfigSchemaError extends Error {
+	/**
+	 * @param message - Every violation, formatted
+	 * @param problems - One `invalid-config` problem per violation
+	 * @param config - The config without the invalid values, for checks
+	 * beyond the schema, or undefined if nothing could be read
+	 * @param origins - File each value came from; the empty path names the
+	 * file that failed
+	 */
+	constructor(
+		message: string,
+		readonly problems: readonly ConfigProblem[],
+		readonly config: Config | undefined,
+		readonly origins: ConfigOrigins,
+	) {
+		super(message);
+		this.name = "ConfigSchemaError";
+	}
+}
+
+/**
+ * Prefixes an error message, keeping the details of schema errors.
+ */
+function prefixError(e: unknown, prefix: string): Error {
+	const message = e instanceof Error ? e.message : String(e);
+	if (e instanceof ConfigSchemaError) {
+		return new ConfigSchemaError(
+			`${prefix}: ${message}`,
+			e.problems,
+			e.config,
+			e.origins,
+		);
+	}
+	return new Error(`${prefix}: ${message}`);
+}
+
+/**
+ * Converts a schema issue path to a config path with steps identified by
+ * name, as in config origins.
+ */
+function toConfigPath(data: unknown, path: readonly PropertyKey[]): string[] {
+	const keys: string[] = [];
+	let value = data;
+	for (const key of path) {
+		const item =
+			Array.isArray(value) && typeof key === "number" ? value[key] : undefined;
+		const name = (item as { readonly name?: unknown } | null | undefined)?.name;
+		keys.push(typeof name === "string" ? name : String(key));
+		value =
+			typeof value === "object" && value !== null
+				? (value as Record<PropertyKey, unknown>)[key]
+				: undefined;
+	}
+	return keys;
+}
+
+/**
+ * Removes the value at a path, or its closest existing ancestor when the
+ * value is missing.
+ */
+function removeValue(data: unknown, path: readonly PropertyKey[]): void {
+	for (let length = path.length; length > 0; length--) {
+		const key = path[length - 1];
+		const parent = path
+			.slice(0, length - 1)
+			.reduce<unknown>(
+				(value, k) =>
+					typeof value === "object" && value !== null
+						? (value as Record<PropertyKey, unknown>)[k]
+						: undefined,
+				data,
+			);
+		if (
+			key === undefined ||
+			typeof parent !== "object" ||
+			parent === null ||
+			!Object.hasOwn(parent, key)
+		) {
+			continue;
+		}
+		if (Array.isArray(parent) && typeof key === "number") {
+			parent.splice(key, 1);
+		} else {
+			delete (parent as Record<PropertyKey, unknown>)[key];
+		}
+		return;
+	}
+}
+
+/**
+ * Parses a config with the values that violate the schema removed, so
+ * checks beyond the schema still run. Steps may omit their action.
+ */
+function parseValidParts(config: unknown): Config | undefined {
+	const schema = createConfigSchema(getActionSchemas(), false);
+	let data: unknown;
+	try {
+		data = structuredClone(config);
+	} catch {
+		return undefined;
+	}
+	// Removing a value can make its parent invalid; give up on deep chains
+	for (let round = 0; round < 8; round++) {
+		const result = schema.safeParse(data);
+		if (result.success) return result.data;
+		for (const issue of expandUnionIssues(result.error.issues).toReversed()) {
+			removeValue(data, issue.path);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Loads the plugins a parsed config lists, then validates it against the
+ * schema with their actions.
+ *
+ * @throws Error if a plugin cannot be loaded, or ConfigSchemaError listing
+ * schema violations, prefixed with the file name and located in the source
+ * when a locator is given, with a code frame when the source text is given
+ * too
+ */
+async function validateConfig(
+	config: unknown,
+	path: string,
+	locate?: SourceLocator,
+	content?: string,
+): Promise<Config> {
+	const { plugins } = (config ?? {}) as { readonly plugins?: unknown };
+	// Malformed lists are left to the schema to report
+	if (
+		Array.isArray(plugins) &&
+		plugins.every((plugin) => typeof plugin === "string")
+	) {
+		await loadPlugins(plugins, resolve(path));
+	}
+
+	try {
+		return createConfigSchema(getActionSchemas(), !mergesSteps(config)).parse(
+			config,
+		);
+	} catch (e) {
+		if (e instanceof ZodError) {
+			throw new ConfigSchemaError(
+				formatZodError(
+					e,
+					`Invalid config in ${basename(path)}`,
+					locate,
+					content,
+				),
+				expandUnionIssues(e.issues).map((issue) => ({
+					severity: "error",
+					rule: "invalid-config",
+					message: issue.message,
+					path: toConfigPath(config, issue.path),
+				})),
+				parseValidParts(config),
+				new Map([["", resolve(path)]]),
+			);
+		}
+		throw e;
+	}
+}
+
+/**
+ * Parses a JSON, JSONC, YAML or TOML config file by its extension. JSON
+ * files are parsed as JSONC, so they may contain comments and trailing
+ * commas.
+ */
+function parseConfigFile(path: string, content: string): ConfigSource {
+	if (/\.ya?ml$/.test(path)) return parseYamlSource(content);
+	if (path.endsWith(".toml")) return parseTomlSource(content);
+	return parseJsoncSource(content);
+}
+
+/**
+ * Imports a TypeScript/JavaScript config and validates its default export.
+ */
+async function loadScriptConfig(path: string): Promise<Config> {
+	const mod = (await import(resolve(path))) as { default?: unknown };
+	if (mod.default === undefined) {
+		throw new Error("Config must be the default export");
+	}
+	return await validateConfig(await mod.default, path);
+}
+
+/**
+ * Checks whether parsed file data is a standalone config rather than
+ * top-level workflows (legacy format). `cache`, `extends` and `plugins` only
+ * count in their own shape, so legacy workflows with those names still load.
+ */
+function isStandaloneConfig(data: unknown): boolean {
+	if (typeof data !== "object" || data === null) return false;
+	const {
+		workflows,
+		worktree,
+		cache,
+		extends: bases,
+		plugins,
+	} = data as {
+		readonly [key: string]: unknown;
+	};
+	const isStringList = (value: unknown) =>
+		Array.isArray(value) && value.every((item) => typeof item === "string");
+	return Boolean(
+		workflows ||
+			worktree ||
+			(typeof cache === "object" && cache !== null && !Array.isArray(cache)) ||
+			isStringList(bases) ||
+			isStringList(plugins),
+	);
+}
+
+/**
+ * Reads and validates one config file, without applying `extends` or
+ * `include`.
+ *
+ * @param path - Config file path
+ * @returns The config, or undefined for a package.json without `workflows`
+ * @throws Error naming the file for syntax and schema errors
+ */
+async function readConfigFile(path: string): Promise<Config | undefined> {
+	if (/\.[cm]?[jt]s$/.test(path)) {
+		try {
+			return await loadScriptConfig(path);
+		} catch (e) {
+			throw prefixError(e, `Failed to load ${path}`);
+		}
+	}
+
+	const content = await Bun.file(path).text();
+	const isPackageJson = basename(path) === "package.json";
+
+	try {
+		const { data, locate } = parseConfigFile(path, content);
+		const parsed: {
+			readonly extends?: unknown;
+			readonly plugins?: unknown;
+			readonly workflows?: unknown;
+			readonly worktree?: unknown;
+			readonly cache?: unknown;
+		} = typeof data === "object" && data !== null ? data : {};
+
+		if (isPackageJson) {
+			if (parsed.workflows) {
+				// package.json only supports workflows, no top-level worktree config currently
+				// strictly following the requirement that workflows.json captures wtp.yaml
+				// strictly following the requirement that workflows.json captures wtp.yaml
+				return await validateConfig(
+					{ workflows: parsed.workflows },
+					path,
+					locate,
+					content,
+				);
+			}
+			return undefined; // Try next candidate if no workflows field
+		}
+
+		// Standalone config file
+		if (isStandaloneConfig(parsed)) {
+			const config = {
+				extends: parsed.extends,
+				plugins: parsed.plugins,
+				workflows: parsed.workflows || {},
+				worktree: parsed.worktree,
+				cache: parsed.cache,
+			};
+			return await validateConfig(config, path, locate, content);
+		}
+
+		// Direct workflow definitions (legacy format)
+		return await validateConfig(
+			{ workflows: parsed },
+			path,
+			(issuePath) => locate(issuePath.slice(1)),
+			content,
+		);
+	} catch (e) {
+		if (e instanceof ConfigSyntaxError) {
+			const { line, column } = e.location;
+			const position = column === undefined ? line : `${line}:${column}`;
+			throw new Error(
+				`Failed to parse ${path}:${position}: ${e.reason}\n\n${formatCodeFrame(content, e.location)}`,
+			);
+		}
+		throw prefixError(e, `Failed to parse ${path}`);
+	}
+}
+
+/**
+ * Lists the paths config discovery checks, in order.
+ */
+function getConfigCandidates(
 	explicitPath: string | undefined,
 	gitRoot: string,
-): Promise<Config> {
+): string[] {
+	if (explicitPath) return [explicitPath];
+
 	const candidates: string[] = [];
+	let current = process.cwd();
+	while (true) {
+		candidates.push(
+			...CONFIG_FILE_NAMES.map((name) => join(current, name)),
+			join(current, "package.json"),
+		);
 
-	if (explicitPath) {
-		candidates.push(explicitPath);
-	} else {
-		let current = process.cwd();
-		while (true) {
+		if (current === gitRoot) {
+			// At git root, also check .config subfolder
 			candidates.push(
-				join(current, "workflow.json"),
-				join(current, "workflow.jsonc"),
-				join(current, "workflows.json"),
-				join(current, "workflows.jsonc"),
-				join(current, "package.json"),
+				...CONFIG_FILE_NAMES.map((name) => join(current, ".config", name)),
 			);
+			break;
+		}
 
-			if (current === gitRoot) {
-				// At git root, also check .config subfolder
-				candidates.push(
-					join(current, ".config", "workflow.json"),
-					join(current, ".config", "workflow.jsonc"),
-					join(current, ".config", "workflows.json"),
-					join(current, ".config", "workflows.jsonc"),
-				);
-				break;
-			}
+		const parent = dirname(current);
+		if (parent === current) break; // Reached filesystem root
+		current = parent;
+	}
+	return candidates;
+}
 
-			const parent = dirname(current);
-			if (parent === current) break; // Reached filesystem root
-			current = parent;
+/**
+ * Finds every config file discovery would consider. The first one is the
+ * config that is loaded; the others are shadowed by it.
+ *
+ * @param explicitPath - Explicit path to config file provided by user
+ * @param gitRoot - Root of the git repository
+ * @returns Absolute paths of existing config files, in discovery order;
+ * package.json files without a `workflows` field are skipped
+ */
+export async function findConfigFiles(
+	explicitPath: string | undefined,
+	gitRoot: string,
+): Promise<string[]> {
+	const files: string[] = [];
+	for (const path of getConfigCandidates(explicitPath, gitRoot)) {
+		if (!existsSync(path)) continue;
+		if (basename(path) === "package.json" && !explicitPath) {
+			const pkg: { readonly workflows?: unknown } | null = await Bun.file(path)
+				.json()
+				.catch(() => null);
+			// Unreadable files are kept so loading them reports the error
+			if (pkg && pkg.workflows === undefined) continue;
 		}
+		files.push(resolve(path));
+	}
+	return files;
+}
+
+/**
+ * Finds where a config value is defined in a JSON, YAML or TOML config file.
+ *
+ * @param path - Config file path
+ * @param keys - Config path with steps identified by name, as in config
+ * origins
+ * @returns Position of the value or its closest ancestor, or undefined for
+ * TypeScript/JavaScript configs and unreadable files
+ */
+export async function locateConfigValue(
+	path: string,
+	keys: readonly string[],
+): Promise<SourceLocation | undefined> {
+	if (/\.[cm]?[jt]s$/.test(path)) return undefined;
+
+	let source: ConfigSource;
+	try {
+		source = parseConfigFile(path, await Bun.file(path).text());
+	} catch {
+		return undefined;
 	}
 
+	// Legacy configs define workflows at the top level
+	const isLegacy =
+		basename(path) !== "package.json" && !isStandaloneConfig(source.data);
+
+	const filePath: (string | number)[] = [];
+	let value: unknown = source.data;
+	for (const [index, key] of keys.entries()) {
+		if (isLegacy && index === 0 && key === "workflows") continue;
+		let segment: string | number = key;
+		if (Array.isArray(value)) {
+			// Steps are identified by name, other items by index
+			const byName = value.findIndex(
+				(item: { readonly name?: unknown } | null) => item?.name === key,
+			);
+			segment = byName === -1 ? Number(key) : byName;
+		}
+		filePath.push(segment);
+		value =
+			typeof value === "object" && value !== null
+				? (value as Record<string | number, unknown>)[segment]
+				: undefined;
+	}
+	return source.locate(filePath);
+}
+
+/**
+ * Finds and reads the config file, without applying `extends` or `include`.
+ *
+ * @param explicitPath - Explicit path to config file provided by user
+ * @param gitRoot - Root of the git repository
+ * @returns Absolute path and contents of the config file
+ */
+export async function loadConfigFile(
+	explicitPath: string | undefined,
+	gitRoot: string,
+): Promise<{ readonly path: string; readonly config: Config }> {
+	const candidates = getConfigCandidates(explicitPath, gitRoot);
+
 	for (const path of candidates) {
 		if (!existsSync(path)) continue;
+		const config = await readConfigFile(path);
+		if (config) return { path: resolve(path), config };
+	}
 
-		const content = await Bun.file(path).text();
-		const isJsonc = path.endsWith(".jsonc");
-		const isPackageJson = basename(path) === "package.json";
+	throw new Error(
+		`No workflow config found. Checked:\n${candidates.map((c) => `  - ${c}`).join("\n")}`,
+	);
+}
 
-		try {
-			const parsed = JSON.parse(isJsonc ? stripJsonComments(content) : content);
-
-			if (isPackageJson) {
-				if (parsed.workflows) {
-					// package.json only supports workflows, no top-level worktree config currently
-					// strictly following the requirement that workflows.json captures wtp.yaml
-					// strictly following the requirement that workflows.json captures wtp.yaml
-					const config = { workflows: parsed.workflows };
-					try {
-						return ConfigSchema.parse(config);
-					} catch (e) {
-						if (e instanceof ZodError) {
-							throw new Error(
-								formatZodError(e, `Invalid config in ${basename(path)}`),
-							);
-						}
-						throw e;
-					}
-				}
-				continue; // Try next candidate if no workflows field
-			}
+/**
+ * Resolves an `extends` or `include` file reference.
+ *
+ * @param ref - Path relative to the referencing file, or `pkg:<module>`
+ * @param from - Absolute path of the referencing file
+ * @returns Absolute path of the referenced file
+ * @throws Error if a `pkg:` module cannot be resolved
+ */
+export function resolveConfigRef(ref: string, from: string): string {
+	if (!ref.startsWith("pkg:")) return resolve(dirname(from), ref);
+	try {
+		return Bun.resolveSync(ref.slice("pkg:".length), dirname(from));
+	} catch {
+		throw new Error(`Cannot resolve "${ref}" from ${from}`);
+	}
+}
 
-			// Standalone config file
-			if (parsed.workflows || parsed.worktree) {
-				const config = {
-					workflows: parsed.workflows || {},
-					worktree: parsed.worktree,
-				};
-				// Validate against schema
-				try {
-					return ConfigSchema.parse(config);
-				} catch (e) {
-					if (e instanceof ZodError) {
-						throw new Error(
-							formatZodError(e, `Invalid config in ${basename(path)}`),
-						);
-					}
-					throw e;
-				}
-			}
+/**
+ * Formats a chain of config files for cycle errors.
+ */
+function formatFileChain(files: readonly string[]): string {
+	return files.map((file) => relative(process.cwd(), file)).join(" → ");
+}
+
+/**
+ * Reads a referenced config file and applies its `extends` and `include`.
+ *
+ * @param path - Absolute path of the file
+ * @param stack - Files currently being resolved, for cycle detection
+ */
+async function loadReferencedConfig(
+	path: string,
+	stack: readonly string[],
+	kind: "extends" | "include",
+): Promise<ResolvedConfig> {
+	if (stack.includes(path)) {
+		throw new Error(`Circular ${kind}: ${formatFileChain([...stack, path])}`);
+	}
+	const config = existsSync(path) ? await readConfigFile(path) : undefined;
+	if (!config) {
+		throw new Error(`No config found in ${path} (${kind} in ${stack.at(-1)})`);
+	}
+	return composeConfig(config, path, stack);
+}
+
+/**
+ * Merges a config over the configs it extends, then applies `include`.
+ */
+async function composeConfig(
+	config: Config,
+	path: string,
+	stack: readonly string[],
+): Promise<ResolvedConfig> {
+	// Plugins were loaded when the file was read
+	const { extends: bases = [], plugins: _plugins, ...own } = config;
+	let resolved: ResolvedConfig | undefined;
+	for (const ref of bases) {
+		const base = await loadReferencedConfig(
+			resolveConfigRef(ref, path),
+			[...stack, path],
+			"extends",
+		);
+		resolved = resolved ? mergeConfigs(resolved, base) : base;
+	}
+	const self = attributeConfig(own, path);
+	return resolveIncludes(resolved ? mergeConfigs(resolved, self) : self, path, [
+		...stack,
+		path,
+	]);
+}
 
-			// Direct workflow definitions (legacy format)
-			const config = { workflows: parsed };
-			try {
-				return ConfigSchema.parse(config);
-			} catch (e) {
-				if (e instanceof ZodError) {
+/**
+ * Applies the `include` lists of every workflow, included workflows first.
+ *
+ * @throws Error for missing or circular includes
+ */
+async function resolveIncludes(
+	initial: ResolvedConfig,
+	path: string,
+	stack: readonly string[],
+): Promise<ResolvedConfig> {
+	let resolved = initial;
+	const done = new Set<string>();
+	const visiting: string[] = [];
+
+	const visit = async (name: string): Promise<void> => {
+		const index = visiting.indexOf(name);
+		if (index !== -1) {
+			const cycle = [...visiting.slice(index), name].join(" → ");
+			throw new Error(`Circular include: ${cycle}`);
+		}
+		const workflow = resolved.config.workflows[name];
+		if (done.has(name) || !workflow || Array.isArray(workflow)) return;
+
+		visiting.push(name);
+		const from = resolved.origins.get(`workflows.${name}.include`) ?? path;
+		const included: { name: string; source: ResolvedConfig }[] = [];
+		for (const entry of workflow.include ?? []) {
+			const hash = entry.lastIndexOf("#");
+			if (hash === -1) {
+				if (!Object.hasOwn(resolved.config.workflows, entry)) {
 					throw new Error(
-						formatZodError(e, `Invalid config in ${basename(path)}`),
+						`Workflow "${name}": included workflow "${entry}" not found`,
 					);
 				}
-				throw e;
+				await visit(entry);
+				included.push({ name: entry, source: resolved });
+				continue;
 			}
-		} catch (e) {
-			const message = e instanceof Error ? e.message : String(e);
-			throw new Error(`Failed to parse ${path}: ${message}`);
+
+			const target = entry.slice(hash + 1);
+			const source = await loadReferencedConfig(
+				resolveConfigRef(entry.slice(0, hash), from),
+				stack,
+				"include",
+			);
+			if (!Object.hasOwn(source.config.workflows, target)) {
+				throw new Error(
+					`Workflow "${name}": included workflow "${entry}" not found`,
+				);
+			}
+			included.push({ name: target, source });
 		}
+		resolved = applyInclude(resolved, name, included);
+		visiting.pop();
+		done.add(name);
+	};
+
+	for (const name of Object.keys(resolved.config.workflows)) {
+		await visit(name);
 	}
+	return resolved;
+}
 
-	throw new Error(
-		`No workflow config found. Checked:\n${candidates.map((c) => `  - ${c}`).join("\n")}`,
-	);
+/**
+ * Loads the config with `extends` and `include` applied, recording the
+ * file each value came from.
+ *
+ * @param explicitPath - Explicit path to config file provided by user
+ * @param gitRoot - Root of the git repository
+ * @returns Merged configuration with origins
+ * @throws ConfigSchemaError for schema violations, Error for other invalid
+ * files, unresolvable references or cycles
+ */
+export async function loadResolvedConfig(
+	explicitPath: string | undefined,
+	gitRoot: string,
+): Promise<ResolvedConfig> {
+	const { path, config } = await loadConfigFile(explicitPath, gitRoot);
+	const resolved = await composeConfig(config, path, []);
+	// Merged steps must still run exactly one registered action
+	try {
+		return { ...resolved, config: await validateConfig(resolved.config, path) };
+	} catch (e) {
+		if (e instanceof ConfigSchemaError) {
+			throw new ConfigSchemaError(
+				e.message,
+				e.problems,
+				e.config,
+				new Map([...e.origins, ...resolved.origins]),
+			);
+		}
+		throw e;
+	}
 }
 
 /**
- * Strips single-line and multi-line comments from JSONC content.
+ * Loads configuration from potential config files.
+ *
+ * @param explicitPath - Explicit path to config file provided by user
+ * @param gitRoot - Root of the git repository
+ * @returns Parsed configuration, with `extends` and `include` applied
+ */
+export async function loadConfig(
+	explicitPath: string | undefined,
+	gitRoot: string,
+): Promise<Config> {
+	return (await loadResolvedConfig(explicitPath, gitRoot)).config;
+}
+
+/**
+ * Strips single-line and multi-line comments from JSONC content. Comment
+ * markers inside strings (e.g. in URLs) are kept.
  *
  * @param jsonc - JSONC string with comments
  * @returns JSON string with comments removed
+ * @throws ConfigSyntaxError for unterminated strings or comments
  */
 export function stripJsonComments(jsonc: string): string {
-	// Remove single-line comments (// ...)
-	let result = jsonc.replace(/\/\/.*$/gm, "");
-	// Remove multi-line comments (/* ... */)
-	result = result.replace(/\/\*[\s\S]*?\*\//g, "");
-	return result;
+	return tokenizeJsonc(jsonc)
+		.filter((token) => token.type !== "comment")
+		.map((token) => jsonc.slice(token.start, token.end))
+		.join("");
 }
 
 /**
@@ -150,3 +720,37 @@ export function getSteps(workflow: Workflow): readonly Step[] {
 	}
 	return workflow;
 }
+
+/**
+ * Extracts the workflow-level environment (object form only).
+ *
+ * @param workflow - Workflow definition
+ * @returns Environment variables inherited by every step
+ */
+export function getWorkflowEnv(
+	workflow: Workflow,
+): Readonly<Record<string, string>> | undefined {
+	return "steps" in workflow ? workflow.env : undefined;
+}
+
+/**
+ * Extracts the workflow-level base ref (object form only).
+ *
+ * @param workflow - Workflow definition
+ * @returns Base ref changes are computed against, if configured
+ */
+export function getWorkflowBase(workflow: Workflow): string | undefined {
+	return "steps" in workflow ? workflow.base : undefined;
+}
+
+/**
+ * Extracts the workflow parameter declarations (object form only).
+ *
+ * @param workflow - Workflow definition
+ * @returns Declared params by name, if any
+ */
+export function getWorkflowParams(
+	workflow: Workflow,
+): Readonly<Record<string, Param>> | undefined {
+	return "steps" in workflow ? workflow.params : undefined;
+}
@@ -0,0 +1,87 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseDotenv, resolveStepCwd, resolveStepEnv } from "./env";
+
+const root = mkdtempSync(join(tmpdir(), "ot-env-"));
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+describe("parseDotenv", () => {
+	test("parses plain, quoted and exported values", () => {
+		const env = parseDotenv(
+			[
+				"# comment",
+				"PLAIN=value # trailing comment",
+				"export EXPORTED=yes",
+				"SINGLE='literal \\n #'",
+				'DOUBLE="line1\\nline2"',
+				"EMPTY=",
+				"URL=http://host/#anchor",
+			].join("\n"),
+		);
+
+		expect(env).toEqual({
+			PLAIN: "value",
+			EXPORTED: "yes",
+			SINGLE: "literal \\n #",
+			DOUBLE: "line1\nline2",
+			EMPTY: "",
+			URL: "http://host/#anchor",
+		});
+	});
+
+	test("reads double-quoted values spanning lines", () => {
+		const env = parseDotenv('KEY="-----BEGIN\nabc\n-----END"\nNEXT=1');
+		expect(env).toEqual({ KEY: "-----BEGIN\nabc\n-----END", NEXT: "1" });
+	});
+});
+
+describe("resolveStepEnv", () => {
+	test("layers workflow env, env files and step env", () => {
+		writeFileSync(join(root, "a.env"), "A=file-a\nB=file-a\nC=file-a");
+		writeFileSync(join(root, "b.env"), "B=file-b");
+
+		const env = resolveStepEnv(
+			{ envFile: ["a.env", "b.env"], env: { C: "step" } },
+			{ A: "workflow", W: "workflow" },
+			root,
+		);
+
+		expect(env).toEqual({ A: "file-a", B: "file-b", C: "step", W: "workflow" });
+	});
+
+	test("throws for a missing env file", () => {
+		expect(() => resolveStepEnv({ envFile: "missing.env" }, {}, root)).toThrow(
+			"Env file not found",
+		);
+	});
+});
+
+describe("resolveStepCwd", () => {
+	const worktrees = async () => [
+		{ path: "/worktrees/main", branch: "main", isMain: true },
+	];
+
+	test("resolves paths relative to the git root", async () => {
+		mkdirSync(join(root, "apps", "web"), { recursive: true });
+		expect(await resolveStepCwd("apps/web", root, worktrees)).toBe(
+			join(root, "apps", "web"),
+		);
+	});
+
+	test("resolves worktree:<branch>", async () => {
+		expect(await resolveStepCwd("worktree:main", root, worktrees)).toBe(
+			"/worktrees/main",
+		);
+		await expect(
+			resolveStepCwd("worktree:nope", root, worktrees),
+		).rejects.toThrow('Worktree for branch "nope" not found');
+	});
+
+	test("rejects missing directories", async () => {
+		await expect(
+			resolveStepCwd("does/not/exist", root, worktrees),
+		).rejects.toThrow("Working directory not found");
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * Step environment and working directory resolution.
+ *
+ * Steps inherit the workflow-level `env`, then load `envFile`s in order
+ * (later files win), then apply their own `env`.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import type { Step, WorktreeInfo } from "./types";
+
+/**
+ * Environment variables added on top of the inherited process environment.
+ */
+export type StepEnv = Readonly<Record<string, string>>;
+
+/**
+ * Parses dotenv file contents.
+ *
+ * Supports `#` comments, an optional `export` prefix, single-quoted values
+ * (literal), double-quoted values (with `\n`, `\t`, `\"` and `\\` escapes,
+ * may span lines) and unquoted values with trailing ` #` comments.
+ *
+ * @param content - File contents
+ * @returns Parsed variables
+ */
+export function parseDotenv(content: string): Record<string, string> {
+	const env: Record<string, string> = {};
+	const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]?.trim() ?? "";
+		if (!line || line.startsWith("#")) continue;
+
+		const match = /^(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*)$/.exec(line);
+		const key = match?.[1];
+		let value = match?.[2] ?? "";
+		if (!key) continue;
+
+		if (value.startsWith('"')) {
+			// Double-quoted values may continue over following lines
+			let raw = value.slice(1);
+			while (!/(?:^|[^\\])(?:\\\\)*"/.test(raw) && i + 1 < lines.length) {
+				i++;
+				raw += `\n${lines[i]}`;
+			}
+			const end = /(?:^|[^\\])(?:\\\\)*"/.exec(raw);
+			const body = end ? raw.slice(0, end.index + end[0].length - 1) : raw;
+			value = body.replace(/\\([nt"\\])/g, (_, ch: string) =>
+				ch === "n" ? "\n" : ch === "t" ? "\t" : ch,
+			);
+		} else if (value.startsWith("'")) {
+			const end = value.indexOf("'", 1);
+			value = end === -1 ? value.slice(1) : value.slice(1, end);
+		} else {
+			value = value.replace(/(?:^|\s+)#.*$/, "").trim();
+		}
+
+		env[key] = value;
+	}
+
+	return env;
+}
+
+/**
+ * Loads and merges dotenv files; later files override earlier ones.
+ *
+ * @param files - File paths, relative to `cwd`
+ * @param cwd - Directory the paths are resolved against
+ * @returns Merged variables
+ * @throws Error if a file does not exist
+ */
+export function loadEnvFiles(
+	files: readonly string[],
+	cwd: string,
+): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const file of files) {
+		const path = resolve(cwd, file);
+		if (!existsSync(path)) {
+			throw new Error(`Env file not found: ${path}`);
+		}
+		Object.assign(env, parseDotenv(readFileSync(path, "utf-8")));
+	}
+	return env;
+}
+
+/**
+ * Resolves a step's working directory.
+ *
+ * @param cwd - Step `cwd`: a path relative to the git root, or `worktree:<branch>`
+ * @param gitRoot - Root of the git repository
+ * @param getWorktrees - Worktree resolver for `worktree:<branch>`
+ * @returns Absolute working directory
+ * @throws Error if the directory or worktree does not exist
+ */
+export async function resolveStepCwd(
+	cwd: string,
+	gitRoot: string,
+	getWorktrees: () => Promise<readonly WorktreeInfo[]>,
+): Promise<string> {
+	if (cwd.startsWith("worktree:")) {
+		const branch = cwd.slice("worktree:".length);
+		const worktrees = await getWorktrees();
+		const worktree = worktrees.find((w) => w.branch === branch);
+		if (!worktree) {
+			const available = worktrees.map((w) => w.branch).join(", ");
+			throw new Error(
+				`Worktree for branch "${branch}" not found. Available: ${available}`,
+			);
+		}
+		return worktree.path;
+	}
+
+	const path = resolve(gitRoot, cwd);
+	if (!existsSync(path) || !statSync(path).isDirectory()) {
+		throw new Error(`Working directory not found: ${path}`);
+	}
+	return path;
+}
+
+/**
+ * Resolves the environment a step adds to the inherited process environment.
+ *
+ * @param step - The step
+ * @param workflowEnv - Workflow-level `env`
+ * @param cwd - Resolved working directory (env files are relative to it)
+ * @returns Merged variables: workflow env, then env files, then step env
+ */
+export function resolveStepEnv(
+	step: Pick<Step, "env" | "envFile">,
+	workflowEnv: StepEnv | undefined,
+	cwd: string,
+): StepEnv {
+	const files =
+		step.envFile === undefined
+			? []
+			: Array.isArray(step.envFile)
+				? step.envFile
+				: [step.envFile];
+	return {
+		...workflowEnv,
+		...loadEnvFiles(files, cwd),
+		...step.env,
+	};
+}
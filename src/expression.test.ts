@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import { createConditionContext, parseStepConditions } from "./condition";
+import {
+	callsFunction,
+	evaluateCondition,
+	getReferencedSteps,
+	parseExpression,
+} from "./expression";
+
+const context = createConditionContext({
+	branch: "release/1.2",
+	inWorktree: true,
+	env: { CI: "true", PORT: "3000" },
+	changedFiles: ["src/index.ts", "docs/guide.md"],
+	steps: {
+		build: { status: "failed", duration: 12 },
+		"db:up": { status: "done", duration: 3 },
+	},
+});
+
+function check(source: string): boolean {
+	return evaluateCondition(parseExpression(source), context);
+}
+
+describe("evaluateCondition", () => {
+	test("compares strings and numbers loosely", () => {
+		expect(check("env.CI == 'true'")).toBe(true);
+		expect(check('env.CI != "true"')).toBe(false);
+		expect(check("env.PORT == 3000")).toBe(true);
+	});
+
+	test("reads step results", () => {
+		expect(check("steps.build.status == 'failed'")).toBe(true);
+		expect(check("steps['db:up'].status == 'done'")).toBe(true);
+	});
+
+	test("matches globs", () => {
+		expect(check("branch =~ 'release/*'")).toBe(true);
+		expect(check("branch !~ 'release/*'")).toBe(false);
+		expect(check("branch =~ 'release/1?2'")).toBe(true);
+		expect(check("branch =~ 'release/1.*'")).toBe(true);
+		expect(check("branch =~ 'release.1.2'")).toBe(false);
+		expect(check("branch =~ 'release/(1|2).2'")).toBe(false);
+		expect(check("branch !~ 'feat/[a'")).toBe(true);
+	});
+
+	test("combines with precedence", () => {
+		expect(check("inWorktree && !changed('docs/**')")).toBe(false);
+		expect(check("inWorktree && changed('src/**', 'lib/**')")).toBe(true);
+		expect(check("false && true || true")).toBe(true);
+		expect(check("false && (true || true)")).toBe(false);
+	});
+
+	test("treats missing env variables as null", () => {
+		expect(check("env.MISSING")).toBe(false);
+		expect(check("env.MISSING == null")).toBe(true);
+	});
+
+	test("rejects unknown variables and functions", () => {
+		expect(() => check("unknown == 1")).toThrow('Unknown variable "unknown"');
+		expect(() => check("exec('rm')")).toThrow('Unknown function "exec"');
+	});
+});
+
+describe("parseExpression", () => {
+	test("reports syntax errors with positions", () => {
+		expect(() => parseExpression("env.CI ==")).toThrow(
+			'Invalid expression "env.CI ==": unexpected end of expression at position 9',
+		);
+		expect(() => parseExpression("(a")).toThrow('expected ")"');
+		expect(() => parseExpression("'open")).toThrow("unterminated string");
+		expect(() => parseExpression("a + b")).toThrow('unexpected character "+"');
+		expect(() => parseExpression("branch =~ 1")).toThrow(
+			"expected a quoted pattern after =~ at position 10",
+		);
+		expect(() => parseExpression("branch !~ null")).toThrow(
+			"expected a quoted pattern after !~",
+		);
+	});
+
+	test("collects referenced steps and called functions", () => {
+		const expression = parseExpression(
+			"steps.build.status == 'done' || !changed(steps['db:up'].status)",
+		);
+		expect([...getReferencedSteps(expression)]).toEqual(["build", "db:up"]);
+		expect(callsFunction(expression, "changed")).toBe(true);
+		expect(callsFunction(parseExpression("branch == 'main'"), "changed")).toBe(
+			false,
+		);
+	});
+});
+
+describe("parseStepConditions", () => {
+	test("requires referenced steps in dependsOn", () => {
+		expect(() =>
+			parseStepConditions([
+				{ name: "build", cmd: "true" },
+				{ name: "notify", cmd: "true", if: "steps.build.status == 'failed'" },
+			]),
+		).toThrow('Step "notify": condition reads steps.build');
+
+		const conditions = parseStepConditions([
+			{ name: "build", cmd: "true" },
+			{
+				name: "notify",
+				cmd: "true",
+				dependsOn: ["build"],
+				if: "steps.build.status == 'failed'",
+			},
+		]);
+		expect([...conditions.keys()]).toEqual(["notify"]);
+	});
+
+	test("accepts matrix parents whose children are dependencies", () => {
+		const groups = new Map([["test", ["test[shard=1]", "test[shard=2]"]]]);
+		const report = (dependsOn: string[]) =>
+			parseStepConditions(
+				[
+					{
+						name: "report",
+						cmd: "true",
+						dependsOn,
+						if: "steps.test.status == 'failed'",
+					},
+				],
+				groups,
+			);
+		expect(report(["test[shard=1]", "test[shard=2]"]).size).toBe(1);
+		expect(() => report(["test[shard=1]"])).toThrow(
+			'Step "report": condition reads steps.test',
+		);
+	});
+});
@@ -0,0 +1,469 @@
+/**
+ * Safe expression language for step `if` conditions.
+ *
+ * Expressions are tokenized and parsed into a small AST and evaluated
+ * against a fixed set of variables and functions; nothing is passed to
+ * `eval`.
+ *
+ * Grammar:
+ * - literals: `'text'`, `"text"`, `42`, `true`, `false`, `null`
+ * - references: `branch`, `env.CI`, `steps.build.status`, `steps['db:up'].status`
+ * - calls: `changed('docs/**', 'README.md')`
+ * - operators (loosest first): `||`, `&&`, `!`, `==` `!=` `=~` `!~`, `( )`
+ *
+ * `=~` and `!~` match the left side against a glob (`*` and `?`; other
+ * characters match themselves), as in `branch =~ 'release/*'`. A literal
+ * pattern must be a string.
+ */
+
+import { matchGlob } from "./branch";
+
+/**
+ * Parsed expression AST node.
+ */
+export type Expression =
+	| {
+			readonly kind: "literal";
+			readonly value: string | number | boolean | null;
+	  }
+	| { readonly kind: "ref"; readonly path: readonly string[] }
+	| { readonly kind: "not"; readonly operand: Expression }
+	| {
+			readonly kind: "compare";
+			readonly op: "==" | "!=" | "=~" | "!~";
+			readonly left: Expression;
+			readonly right: Expression;
+	  }
+	| {
+			readonly kind: "logical";
+			readonly op: "&&" | "||";
+			readonly left: Expression;
+			readonly right: Expression;
+	  }
+	| {
+			readonly kind: "call";
+			readonly name: string;
+			readonly args: readonly Expression[];
+	  };
+
+/**
+ * Variables and functions available to an expression.
+ */
+export type ExpressionContext = {
+	readonly variables: Readonly<Record<string, unknown>>;
+	readonly functions?: Readonly<
+		Record<string, (...args: unknown[]) => unknown>
+	>;
+};
+
+type Token = {
+	readonly type: "ident" | "string" | "number" | "op" | "eof";
+	readonly value: string;
+	readonly pos: number;
+};
+
+const OPERATORS = [
+	"==",
+	"!=",
+	"=~",
+	"!~",
+	"&&",
+	"||",
+	"!",
+	"(",
+	")",
+	"[",
+	"]",
+	".",
+	",",
+];
+
+/**
+ * Splits an expression into tokens.
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	while (pos < source.length) {
+		const ch = source[pos] ?? "";
+		if (/\s/.test(ch)) {
+			pos++;
+			continue;
+		}
+
+		if (ch === "'" || ch === '"') {
+			let value = "";
+			let end = pos + 1;
+			while (end < source.length && source[end] !== ch) {
+				if (source[end] === "\\" && end + 1 < source.length) end++;
+				value += source[end];
+				end++;
+			}
+			if (end >= source.length) {
+				throw new Error(`unterminated string at position ${pos}`);
+			}
+			tokens.push({ type: "string", value, pos });
+			pos = end + 1;
+			continue;
+		}
+
+		const number = /^\d+(?:\.\d+)?/.exec(source.slice(pos));
+		if (number) {
+			tokens.push({ type: "number", value: number[0], pos });
+			pos += number[0].length;
+			continue;
+		}
+
+		const ident = /^[A-Za-z_][\w-]*/.exec(source.slice(pos));
+		if (ident) {
+			tokens.push({ type: "ident", value: ident[0], pos });
+			pos += ident[0].length;
+			continue;
+		}
+
+		const op = OPERATORS.find((o) => source.startsWith(o, pos));
+		if (!op) {
+			throw new Error(`unexpected character "${ch}" at position ${pos}`);
+		}
+		tokens.push({ type: "op", value: op, pos });
+		pos += op.length;
+	}
+
+	tokens.push({ type: "eof", value: "", pos });
+	return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list.
+ */
+class Parser {
+	readonly #tokens: readonly Token[];
+	#index = 0;
+
+	constructor(tokens: readonly Token[]) {
+		this.#tokens = tokens;
+	}
+
+	parse(): Expression {
+		const expression = this.#or();
+		const token = this.#peek();
+		if (token.type !== "eof") {
+			throw new Error(`unexpected "${token.value}" at position ${token.pos}`);
+		}
+		return expression;
+	}
+
+	#peek(): Token {
+		return this.#tokens[this.#index] ?? { type: "eof", value: "", pos: 0 };
+	}
+
+	#next(): Token {
+		const token = this.#peek();
+		this.#index++;
+		return token;
+	}
+
+	#acceptOp(...ops: string[]): string | undefined {
+		const token = this.#peek();
+		if (token.type === "op" && ops.includes(token.value)) {
+			this.#index++;
+			return token.value;
+		}
+		return undefined;
+	}
+
+	#expectOp(op: string): void {
+		const token = this.#next();
+		if (token.type !== "op" || token.value !== op) {
+			const found =
+				token.type === "eof" ? "end of expression" : `"${token.value}"`;
+			throw new Error(
+				`expected "${op}" but found ${found} at position ${token.pos}`,
+			);
+		}
+	}
+
+	#or(): Expression {
+		let left = this.#and();
+		while (this.#acceptOp("||")) {
+			left = { kind: "logical", op: "||", left, right: this.#and() };
+		}
+		return left;
+	}
+
+	#and(): Expression {
+		let left = this.#unary();
+		while (this.#acceptOp("&&")) {
+			left = { kind: "logical", op: "&&", left, right: this.#unary() };
+		}
+		return left;
+	}
+
+	#unary(): Expression {
+		if (this.#acceptOp("!")) {
+			return { kind: "not", operand: this.#unary() };
+		}
+		return this.#comparison();
+	}
+
+	#comparison(): Expression {
+		const left = this.#primary();
+		const op = this.#acceptOp("==", "!=", "=~", "!~");
+		if (!op) return left;
+		const { pos } = this.#peek();
+		const right = this.#primary();
+		if (
+			(op === "=~" || op === "!~") &&
+			right.kind === "literal" &&
+			typeof right.value !== "string"
+		) {
+			throw new Error(
+				`expected a quoted pattern after ${op} at position ${pos}`,
+			);
+		}
+		return {
+			kind: "compare",
+			op: op as "==" | "!=" | "=~" | "!~",
+			left,
+			right,
+		};
+	}
+
+	#primary(): Expression {
+		const token = this.#next();
+
+		if (token.type === "string") return { kind: "literal", value: token.value };
+		if (token.type === "number") {
+			return { kind: "literal", value: Number(token.value) };
+		}
+		if (token.type === "op" && token.value === "(") {
+			const inner = this.#or();
+			this.#expectOp(")");
+			return inner;
+		}
+		if (token.type !== "ident") {
+			const found =
+				token.type === "eof" ? "end of expression" : `"${token.value}"`;
+			throw new Error(`unexpected ${found} at position ${token.pos}`);
+		}
+
+		if (token.value === "true") return { kind: "literal", value: true };
+		if (token.value === "false") return { kind: "literal", value: false };
+		if (token.value === "null") return { kind: "literal", value: null };
+
+		if (this.#acceptOp("(")) {
+			const args: Expression[] = [];
+			if (!this.#acceptOp(")")) {
+				do {
+					args.push(this.#or());
+				} while (this.#acceptOp(","));
+				this.#expectOp(")");
+			}
+			return { kind: "call", name: token.value, args };
+		}
+
+		const path = [token.value];
+		for (;;) {
+			if (this.#acceptOp(".")) {
+				const member = this.#next();
+				if (member.type !== "ident" && member.type !== "number") {
+					throw new Error(`expected a property name at position ${member.pos}`);
+				}
+				path.push(member.value);
+			} else if (this.#acceptOp("[")) {
+				const member = this.#next();
+				if (member.type !== "string") {
+					throw new Error(
+						`expected a quoted property name at position ${member.pos}`,
+					);
+				}
+				path.push(member.value);
+				this.#expectOp("]");
+			} else {
+				return { kind: "ref", path };
+			}
+		}
+	}
+}
+
+/**
+ * Parses an expression.
+ *
+ * @param source - Expression source
+ * @returns Parsed AST
+ * @throws Error describing the first syntax error
+ *
+ * @example
+ * ```ts
+ * parseExpression("branch =~ 'release/*' && !changed('docs/**')");
+ * ```
+ */
+export function parseExpression(source: string): Expression {
+	try {
+		return new Parser(tokenize(source)).parse();
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		throw new Error(`Invalid expression "${source}": ${message}`);
+	}
+}
+
+/**
+ * Converts a value to a boolean: `undefined`, `null`, `false`, `0` and `""`
+ * are false.
+ */
+function truthy(value: unknown): boolean {
+	return Boolean(value);
+}
+
+/**
+ * Compares two values; primitives are compared by their string form so
+ * `env.PORT == 3000` works on string environment values.
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+	if (
+		left === undefined ||
+		left === null ||
+		right === undefined ||
+		right === null
+	) {
+		return (left ?? null) === (right ?? null);
+	}
+	return String(left) === String(right);
+}
+
+/**
+ * Evaluates a parsed expression.
+ *
+ * @param expression - Parsed AST
+ * @param context - Available variables and functions
+ * @returns Resulting value (use `evaluateCondition` for a boolean)
+ * @throws Error for unknown variables or functions
+ */
+export function evaluateExpression(
+	expression: Expression,
+	context: ExpressionContext,
+): unknown {
+	switch (expression.kind) {
+		case "literal":
+			return expression.value;
+		case "ref": {
+			const [root, ...members] = expression.path;
+			if (root === undefined || !Object.hasOwn(context.variables, root)) {
+				throw new Error(`Unknown variable "${root}"`);
+			}
+			let value: unknown = context.variables[root];
+			for (const member of members) {
+				value =
+					typeof value === "object" &&
+					value !== null &&
+					Object.hasOwn(value, member)
+						? (value as Record<string, unknown>)[member]
+						: undefined;
+			}
+			return value;
+		}
+		case "not":
+			return !truthy(evaluateExpression(expression.operand, context));
+		case "logical": {
+			const left = truthy(evaluateExpression(expression.left, context));
+			if (expression.op === "&&") {
+				return left && truthy(evaluateExpression(expression.right, context));
+			}
+			return left || truthy(evaluateExpression(expression.right, context));
+		}
+		case "compare": {
+			const left = evaluateExpression(expression.left, context);
+			const right = evaluateExpression(expression.right, context);
+			switch (expression.op) {
+				case "==":
+					return looseEquals(left, right);
+				case "!=":
+					return !looseEquals(left, right);
+				case "=~":
+					return left != null && matchGlob(String(left), String(right));
+				case "!~":
+					return left == null || !matchGlob(String(left), String(right));
+			}
+			return false;
+		}
+		case "call": {
+			const fn = context.functions?.[expression.name];
+			if (!fn) throw new Error(`Unknown function "${expression.name}"`);
+			return fn(...expression.args.map((a) => evaluateExpression(a, context)));
+		}
+	}
+}
+
+/**
+ * Evaluates an expression as a condition.
+ *
+ * @param expression - Parsed AST
+ * @param context - Available variables and functions
+ * @returns Truthiness of the result
+ */
+export function evaluateCondition(
+	expression: Expression,
+	context: ExpressionContext,
+): boolean {
+	return truthy(evaluateExpression(expression, context));
+}
+
+/**
+ * Collects the names of steps referenced as `steps.<name>` or `steps['<name>']`.
+ *
+ * @param expression - Parsed AST
+ * @returns Referenced step names
+ */
+export function getReferencedSteps(expression: Expression): Set<string> {
+	const names = new Set<string>();
+	const visit = (node: Expression): void => {
+		switch (node.kind) {
+			case "ref":
+				if (node.path[0] === "steps" && node.path[1] !== undefined) {
+					names.add(node.path[1]);
+				}
+				return;
+			case "not":
+				visit(node.operand);
+				return;
+			case "compare":
+			case "logical":
+				visit(node.left);
+				visit(node.right);
+				return;
+			case "call":
+				for (const arg of node.args) visit(arg);
+				return;
+		}
+	};
+	visit(expression);
+	return names;
+}
+
+/**
+ * Checks whether an expression calls a function.
+ *
+ * @param expression - Parsed AST
+ * @param name - Function name
+ * @returns True if the function is called anywhere in the expression
+ */
+export function callsFunction(expression: Expression, name: string): boolean {
+	switch (expression.kind) {
+		case "not":
+			return callsFunction(expression.operand, name);
+		case "compare":
+		case "logical":
+			return (
+				callsFunction(expression.left, name) ||
+				callsFunction(expression.right, name)
+			);
+		case "call":
+			return (
+				expression.name === name ||
+				expression.args.some((a) => callsFunction(a, name))
+			);
+		default:
+			return false;
+	}
+}
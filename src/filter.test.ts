@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { parsePackageSelector, selectPackages } from "./filter";
+import type { WorkspacePackage } from "./npm-workspace";
+
+const packages: WorkspacePackage[] = [
+	{
+		name: "@app/backend",
+		path: "/repo/apps/backend",
+		scripts: {},
+		workspaceDeps: ["@lib/utils"],
+	},
+	{
+		name: "@app/frontend",
+		path: "/repo/apps/frontend",
+		scripts: {},
+		workspaceDeps: ["@lib/ui"],
+	},
+	{
+		name: "@app/legacy",
+		path: "/repo/apps/legacy",
+		scripts: {},
+		workspaceDeps: ["@lib/ui"],
+	},
+	{
+		name: "@lib/ui",
+		path: "/repo/libs/ui",
+		scripts: {},
+		workspaceDeps: ["@lib/utils"],
+	},
+	{
+		name: "@lib/utils",
+		path: "/repo/libs/utils",
+		scripts: {},
+		workspaceDeps: [],
+	},
+];
+
+const select = (...filters: string[]) =>
+	[...selectPackages(filters, packages, "/repo")].sort();
+
+describe("parsePackageSelector", () => {
+	test("parses a package name", () => {
+		expect(parsePackageSelector("@app/backend")).toMatchObject({
+			exclude: false,
+			namePattern: "@app/backend",
+			dependents: false,
+			dependencies: false,
+		});
+	});
+
+	test("parses a path selector", () => {
+		expect(parsePackageSelector("./apps/*")).toMatchObject({
+			namePattern: undefined,
+			pathPattern: "apps/*",
+		});
+	});
+
+	test("parses graph and exclusion markers", () => {
+		expect(parsePackageSelector("!...^@lib/ui...")).toMatchObject({
+			exclude: true,
+			namePattern: "@lib/ui",
+			dependents: true,
+			dependencies: true,
+			excludeSelf: true,
+		});
+	});
+
+	test("throws on an empty selector", () => {
+		expect(() => parsePackageSelector("...")).toThrow(/Invalid filter/);
+	});
+});
+
+describe("selectPackages", () => {
+	test("selects by name", () => {
+		expect(select("@app/backend")).toEqual(["@app/backend"]);
+	});
+
+	test("selects by name glob", () => {
+		expect(select("@lib/*")).toEqual(["@lib/ui", "@lib/utils"]);
+	});
+
+	test("selects by directory", () => {
+		expect(select("./apps/*")).toEqual([
+			"@app/backend",
+			"@app/frontend",
+			"@app/legacy",
+		]);
+	});
+
+	test("selects dependents", () => {
+		expect(select("...@lib/ui")).toEqual([
+			"@app/frontend",
+			"@app/legacy",
+			"@lib/ui",
+		]);
+	});
+
+	test("selects dependencies", () => {
+		expect(select("@app/frontend...")).toEqual([
+			"@app/frontend",
+			"@lib/ui",
+			"@lib/utils",
+		]);
+	});
+
+	test("excludes the package itself with ^", () => {
+		expect(select("...^@lib/ui")).toEqual(["@app/frontend", "@app/legacy"]);
+	});
+
+	test("unions multiple filters", () => {
+		expect(select("@app/backend", "@lib/ui")).toEqual([
+			"@app/backend",
+			"@lib/ui",
+		]);
+	});
+
+	test("applies exclusions after inclusions", () => {
+		expect(select("...@lib/ui", "!@app/legacy")).toEqual([
+			"@app/frontend",
+			"@lib/ui",
+		]);
+	});
+
+	test("exclusions alone start from all packages", () => {
+		expect(select("!./apps/*")).toEqual(["@lib/ui", "@lib/utils"]);
+	});
+});
@@ -0,0 +1,224 @@
+/**
+ * Turborepo-style package selectors for `--filter`.
+ *
+ * Syntax:
+ * - `@app/backend` / `@app/*` - package name (glob)
+ * - `./apps/*` - package directory relative to the git root (glob)
+ * - `...@lib/ui` - the package and everything that depends on it
+ * - `@lib/ui...` - the package and everything it depends on
+ * - `...^@lib/ui` / `@lib/ui^...` - same, excluding the package itself
+ * - `!@app/legacy` - exclude matching packages
+ */
+
+import { relative, sep } from "node:path";
+import type { AffectedResult } from "./affected";
+import {
+	buildDependencyGraph,
+	buildDependentsGraph,
+	discoverWorkspaces,
+	type WorkspacePackage,
+} from "./npm-workspace";
+
+/**
+ * A parsed `--filter` selector.
+ */
+export type PackageSelector = {
+	readonly raw: string;
+	/** Exclusion selector (`!` prefix) */
+	readonly exclude: boolean;
+	/** Glob matched against package names */
+	readonly namePattern?: string;
+	/** Glob matched against package directories relative to the git root */
+	readonly pathPattern?: string;
+	/** Also select packages that depend on the matches (`...` prefix) */
+	readonly dependents: boolean;
+	/** Also select packages the matches depend on (`...` suffix) */
+	readonly dependencies: boolean;
+	/** Drop the matched packages themselves (`^`) */
+	readonly excludeSelf: boolean;
+};
+
+/**
+ * Parses a selector string.
+ *
+ * @param raw - Selector as passed to `--filter`
+ * @returns Parsed selector
+ * @throws Error if the selector is empty
+ */
+export function parsePackageSelector(raw: string): PackageSelector {
+	let rest = raw.trim();
+	const exclude = rest.startsWith("!");
+	if (exclude) rest = rest.slice(1);
+
+	let dependents = false;
+	let dependencies = false;
+	let excludeSelf = false;
+
+	if (rest.startsWith("...")) {
+		dependents = true;
+		rest = rest.slice(3);
+		if (rest.startsWith("^")) {
+			excludeSelf = true;
+			rest = rest.slice(1);
+		}
+	}
+	if (rest.endsWith("...")) {
+		dependencies = true;
+		rest = rest.slice(0, -3);
+		if (rest.endsWith("^")) {
+			excludeSelf = true;
+			rest = rest.slice(0, -1);
+		}
+	}
+
+	if (!rest) {
+		throw new Error(`Invalid filter "${raw}": no package selected`);
+	}
+
+	const isPath = rest.startsWith(".") || rest.startsWith("/");
+	return {
+		raw,
+		exclude,
+		namePattern: isPath ? undefined : rest,
+		pathPattern: isPath
+			? rest.replace(/^\.\//, "").replace(/\/$/, "")
+			: undefined,
+		dependents,
+		dependencies,
+		excludeSelf,
+	};
+}
+
+/**
+ * Collects every package reachable from `start` through `edges`.
+ */
+function collectReachable(
+	start: Iterable<string>,
+	edges: ReadonlyMap<string, readonly string[]>,
+): Set<string> {
+	const seen = new Set<string>();
+	const stack = [...start];
+	while (stack.length > 0) {
+		const current = stack.pop();
+		if (current === undefined) break;
+		for (const next of edges.get(current) ?? []) {
+			if (seen.has(next)) continue;
+			seen.add(next);
+			stack.push(next);
+		}
+	}
+	return seen;
+}
+
+/**
+ * Evaluates a single selector against workspace packages.
+ *
+ * @param selector - Parsed selector
+ * @param packages - Workspace packages
+ * @param gitRoot - Root of the git repository
+ * @returns Names of selected packages
+ */
+export function evaluateSelector(
+	selector: PackageSelector,
+	packages: readonly WorkspacePackage[],
+	gitRoot: string,
+): Set<string> {
+	const nameGlob = selector.namePattern
+		? new Bun.Glob(selector.namePattern)
+		: undefined;
+	const pathGlob = selector.pathPattern
+		? new Bun.Glob(selector.pathPattern)
+		: undefined;
+
+	const matched = new Set(
+		packages
+			.filter((pkg) => {
+				if (nameGlob) return nameGlob.match(pkg.name);
+				const dir = relative(gitRoot, pkg.path).split(sep).join("/");
+				return pathGlob?.match(dir) ?? false;
+			})
+			.map((pkg) => pkg.name),
+	);
+
+	const selected = selector.excludeSelf ? new Set<string>() : new Set(matched);
+	if (selector.dependents) {
+		const dependents = buildDependentsGraph(packages);
+		for (const name of collectReachable(matched, dependents)) {
+			selected.add(name);
+		}
+	}
+	if (selector.dependencies) {
+		const dependencies = buildDependencyGraph(packages);
+		for (const name of collectReachable(matched, dependencies)) {
+			selected.add(name);
+		}
+	}
+	return selected;
+}
+
+/**
+ * Selects packages matching a list of filters.
+ *
+ * Inclusion selectors are unioned; exclusion selectors are then removed.
+ * If only exclusions are given, selection starts from all packages.
+ *
+ * @param filters - Raw selector strings
+ * @param packages - Workspace packages
+ * @param gitRoot - Root of the git repository
+ * @returns Names of selected packages
+ *
+ * @example
+ * ```ts
+ * selectPackages(["...@lib/ui", "!@app/legacy"], packages, gitRoot);
+ * ```
+ */
+export function selectPackages(
+	filters: readonly string[],
+	packages: readonly WorkspacePackage[],
+	gitRoot: string,
+): Set<string> {
+	const selectors = filters.map(parsePackageSelector);
+	const includes = selectors.filter((s) => !s.exclude);
+	const excludes = selectors.filter((s) => s.exclude);
+
+	const selected =
+		includes.length > 0
+			? new Set(
+					includes.flatMap((s) => [...evaluateSelector(s, packages, gitRoot)]),
+				)
+			: new Set(packages.map((p) => p.name));
+
+	for (const selector of excludes) {
+		for (const name of evaluateSelector(selector, packages, gitRoot)) {
+			selected.delete(name);
+		}
+	}
+
+	return selected;
+}
+
+/**
+ * Resolves the set of packages a run is restricted to by `--filter` and
+ * `--affected`. When both are given, the selection is their intersection.
+ *
+ * @param gitRoot - Root of the git repository
+ * @param filters - Raw `--filter` selectors
+ * @param affected - Affected packages from `--affected`
+ * @returns Selected package names, or undefined if the run is unrestricted
+ */
+export async function resolvePackageSelection(
+	gitRoot: string,
+	filters: readonly string[],
+	affected: AffectedResult | undefined,
+): Promise<ReadonlySet<string> | undefined> {
+	const affectedNames = affected
+		? new Set(affected.packages.keys())
+		: undefined;
+	if (filters.length === 0) return affectedNames;
+
+	const packages = await discoverWorkspaces(gitRoot);
+	const selected = selectPackages(filters, packages, gitRoot);
+	if (!affectedNames) return selected;
+
+	return new Set([...selected].filter((name) => affectedNames.has(name)));
+}
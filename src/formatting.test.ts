@@ -1,7 +1,12 @@
 import { describe, expect, test } from "bun:test";
 import { createColorizer } from "./colors";
-import { formatDuration, formatStepLine } from "./formatting";
-import type { StepState } from "./types";
+import {
+	formatDuration,
+	formatStepLine,
+	formatZodError,
+	quoteShellArg,
+} from "./formatting";
+import { ConfigSchema, type StepState } from "./types";
 
 describe("formatDuration", () => {
 	test("formats milliseconds for duration < 1000ms", () => {
@@ -56,6 +61,37 @@ describe("formatStepLine", () => {
 		expect(line).toContain("(250ms)");
 	});
 
+	test("formats cached step with duration", () => {
+		const line = formatStepLine(makeState("cached", 12), noColor);
+		expect(line).toContain("↺");
+		expect(line).toContain("test-step");
+		expect(line).toContain("cached (12ms)");
+	});
+
+	test("formats cancelled step with duration", () => {
+		const line = formatStepLine(makeState("cancelled", 80), noColor);
+		expect(line).toContain("⊘");
+		expect(line).toContain("cancelled (80ms)");
+	});
+
+	test("formats allowed failure", () => {
+		const line = formatStepLine(makeState("warning", 40), noColor);
+		expect(line).toContain("⚠");
+		expect(line).toContain("failed (allowed) (40ms)");
+	});
+
+	test("formats timed out step", () => {
+		const line = formatStepLine(makeState("timeout", 5000), noColor);
+		expect(line).toContain("⏱");
+		expect(line).toContain("test-step");
+		expect(line).toContain("timed out after 5.00s");
+	});
+
+	test("shows the configured timeout rather than the elapsed time", () => {
+		const state = { ...makeState("timeout", 10_020), timeout: 5000 };
+		expect(formatStepLine(state, noColor)).toContain("timed out after 5.00s");
+	});
+
 	test("formats skipped step", () => {
 		const line = formatStepLine(makeState("skipped"), noColor);
 		expect(line).toContain("○");
@@ -69,3 +105,43 @@ describe("formatStepLine", () => {
 		expect(line).toContain("test-step       ");
 	});
 });
+
+describe("formatZodError", () => {
+	test("reports issues inside the matching union member with locations", () => {
+		const result = ConfigSchema.safeParse({
+			workflows: { build: [{ name: "a", dependsOn: "b" }] },
+		});
+		if (result.success) throw new Error("expected an error");
+
+		expect(
+			formatZodError(result.error, "Invalid config", (path) =>
+				path.length === 4 ? { line: 3, column: 5 } : undefined,
+			),
+		).toBe(
+			'Invalid config:\n  - At "workflows.build.0.dependsOn" (line 3, column 5): Invalid input: expected array, received string',
+		);
+	});
+
+	test("follows located issues with a code frame", () => {
+		const result = ConfigSchema.safeParse({ workflows: { build: "x" } });
+		if (result.success) throw new Error("expected an error");
+
+		expect(
+			formatZodError(
+				result.error,
+				"Invalid config",
+				() => ({ line: 1, column: 23 }),
+				'{ "workflows": { "build": "x" } }',
+			),
+		).toEndWith(
+			'\n      > 1 | { "workflows": { "build": "x" } }\n          |                       ^',
+		);
+	});
+});
+
+describe("quoteShellArg", () => {
+	test("quotes only when needed", () => {
+		expect(quoteShellArg("--shard=1/4")).toBe("--shard=1/4");
+		expect(quoteShellArg("a b")).toBe("'a b'");
+	});
+});
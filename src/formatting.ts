@@ -2,6 +2,12 @@
  * Formatting utilities for the job runner.
  */
 
+import type { z } from "zod";
+import {
+	formatCodeFrame,
+	formatSourceLocation,
+	type SourceLocator,
+} from "./config-source";
 import type { ColorFn, StepState, StepStatus } from "./types";
 
 /**
@@ -15,6 +21,16 @@ export function formatDuration(ms: number): string {
 	return `${(ms / 1000).toFixed(2)}s`;
 }
 
+/**
+ * Formats a timeout for display.
+ *
+ * @param ms - Timeout in milliseconds
+ * @returns Formatted string (e.g., "timed out after 30.00s")
+ */
+export function formatTimeout(ms: number): string {
+	return `timed out after ${formatDuration(ms)}`;
+}
+
 /**
  * Formats a step state into a display line with icon, name, status, and duration.
  *
@@ -24,18 +40,28 @@ export function formatDuration(ms: number): string {
  */
 export function formatStepLine(state: StepState, c: ColorFn): string {
 	const icons: Record<StepStatus, string> = {
+		cached: c("blue", "↺"),
+		cancelled: c("yellow", "⊘"),
 		done: c("green", "✓"),
 		failed: c("red", "✗"),
 		pending: c("dim", "○"),
 		running: c("yellow", "◐"),
 		skipped: c("dim", "○"),
+		timeout: c("red", "⏱"),
+		warning: c("yellow", "⚠"),
 	};
 
 	const icon = icons[state.status];
 	const duration =
-		state.status === "done" || state.status === "failed"
+		state.status === "done" ||
+		state.status === "cached" ||
+		state.status === "cancelled" ||
+		state.status === "failed" ||
+		state.status === "warning"
 			? c("dim", `(${formatDuration(state.duration)})`)
-			: "";
+			: state.status === "timeout"
+				? c("red", formatTimeout(state.timeout ?? state.duration))
+				: "";
 	const statusText =
 		state.status === "running"
 			? c("dim", "running...")
@@ -43,26 +69,73 @@ export function formatStepLine(state: StepState, c: ColorFn): string {
 				? c("dim", "waiting...")
 				: state.status === "skipped"
 					? c("dim", "skipped")
-					: "";
+					: state.status === "cached"
+						? `${c("blue", "cached")} `
+						: state.status === "cancelled"
+							? `${c("yellow", "cancelled")} `
+							: state.status === "warning"
+								? `${c("yellow", "failed (allowed)")} `
+								: "";
 
 	return `  ${icon} ${state.step.name.padEnd(16)} ${statusText}${duration}`;
 }
 
+/**
+ * Replaces union issues with the issues of the only member whose type
+ * matched, so errors point into the value instead of at the union.
+ */
+export function expandUnionIssues(
+	issues: readonly z.core.$ZodIssue[],
+): z.core.$ZodIssue[] {
+	return issues.flatMap((issue) => {
+		if (issue.code !== "invalid_union") return [issue];
+		const matched = issue.errors.filter((branch) =>
+			branch.every((i) => i.path.length > 0),
+		);
+		const [branch] = matched;
+		if (matched.length !== 1 || !branch) return [issue];
+		return expandUnionIssues(
+			branch.map((i) => ({ ...i, path: [...issue.path, ...i.path] })),
+		);
+	});
+}
+
 /**
  * Formats a Zod validation error into a human-friendly string.
  *
  * @param error - The Zod error
  * @param prefix - Prefix for the error message
+ * @param locate - Maps an issue path to its position in the source file
+ * @param content - Source text; located issues are followed by a code frame
  * @returns Formatted error string
  */
 export function formatZodError(
 	error: import("zod").ZodError,
 	prefix = "Invalid configuration",
+	locate?: SourceLocator,
+	content?: string,
 ): string {
-	const issues = error.issues.map((issue) => {
+	const issues = expandUnionIssues(error.issues).map((issue) => {
 		const path = issue.path.join(".");
-		const pathText = path ? `At "${path}": ` : "";
-		return `  - ${pathText}${issue.message}`;
+		const location = locate?.(issue.path);
+		const locationText = location ? ` (${formatSourceLocation(location)})` : "";
+		const pathText = path ? `At "${path}"${locationText}: ` : "";
+		const frame =
+			location && content !== undefined
+				? `\n${formatCodeFrame(content, location).replace(/^/gm, "      ")}`
+				: "";
+		return `  - ${pathText}${issue.message}${frame}`;
 	});
 	return `${prefix}:\n${issues.join("\n")}`;
 }
+
+/**
+ * Quotes an argument for the shell when it contains special characters.
+ *
+ * @param arg - Argument
+ * @returns The argument, single-quoted if needed
+ */
+export function quoteShellArg(arg: string): string {
+	if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+	return `'${arg.replace(/'/g, `'"'"'`)}'`;
+}
@@ -28,6 +28,17 @@ async function getCurrentBranch(options: GitOptions = {}): Promise<string> {
 	return result.text().trim();
 }
 
+async function getHeadSha(options: GitOptions = {}): Promise<string> {
+	const $cmd = options.cwd
+		? $`git rev-parse HEAD`.cwd(options.cwd)
+		: $`git rev-parse HEAD`;
+	const result = await $cmd.quiet().nothrow();
+	if (result.exitCode !== 0) {
+		throw new Error("Failed to get HEAD commit");
+	}
+	return result.text().trim();
+}
+
 async function getWorktrees(
 	options: GitOptions = {},
 ): Promise<readonly WorktreeInfo[]> {
@@ -82,9 +93,56 @@ async function isInWorktree(
 	return mainWorktree ? resolve(gitRoot) !== resolve(mainWorktree.path) : false;
 }
 
+async function refExists(
+	ref: string,
+	options: GitOptions = {},
+): Promise<boolean> {
+	const $cmd = options.cwd
+		? $`git rev-parse --verify --quiet ${`${ref}^{commit}`}`.cwd(options.cwd)
+		: $`git rev-parse --verify --quiet ${`${ref}^{commit}`}`;
+	const result = await $cmd.quiet().nothrow();
+	return result.exitCode === 0;
+}
+
+/**
+ * Lists files changed since the merge-base of `base` and HEAD, including
+ * uncommitted and untracked files. Paths are relative to the git root.
+ */
+async function getChangedFiles(
+	base: string,
+	options: GitOptions = {},
+): Promise<readonly string[]> {
+	const run = async (cmd: ReturnType<typeof $>) => {
+		const result = await (options.cwd ? cmd.cwd(options.cwd) : cmd)
+			.quiet()
+			.nothrow();
+		if (result.exitCode !== 0) {
+			throw new Error(
+				`Failed to list changed files against "${base}": ${result.stderr.toString().trim()}`,
+			);
+		}
+		return result
+			.text()
+			.split("\n")
+			.map((l) => l.trim())
+			.filter(Boolean);
+	};
+
+	const [committed, uncommitted, untracked] = await Promise.all([
+		run($`git diff --name-only ${`${base}...HEAD`}`),
+		run($`git diff --name-only HEAD`),
+		run($`git ls-files --others --exclude-standard --full-name`),
+	]);
+
+	return [...new Set([...committed, ...uncommitted, ...untracked])].sort();
+}
+
 export const GitUtil = {
 	getGitRoot,
 	getCurrentBranch,
+	getHeadSha,
 	getWorktrees,
 	isInWorktree,
+	refExists,
+	getChangedFiles,
 } as const;
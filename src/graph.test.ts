@@ -116,4 +116,34 @@ describe("resolveStepsWithDeps", () => {
 		const result = resolveStepsWithDeps(steps, ["a"]);
 		expect(result.map((s) => s.name)).toEqual(["a"]);
 	});
+
+	test("expands matrix steps into children", () => {
+		const steps: Step[] = [
+			{ name: "build", cmd: "bun build" },
+			{
+				name: "test",
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: matrix placeholder
+				cmd: "bun test --shard=${{ matrix.shard }}/2",
+				dependsOn: ["build"],
+				matrix: { shard: [1, 2] },
+			},
+			{ name: "report", cmd: "bun report", dependsOn: ["test"] },
+		];
+
+		const result = resolveStepsWithDeps(steps, ["report"]);
+		expect(result.map((s) => s.name)).toEqual([
+			"build",
+			"test[shard=1]",
+			"test[shard=2]",
+			"report",
+		]);
+		expect(result[3]?.dependsOn).toEqual(["test[shard=1]", "test[shard=2]"]);
+
+		const children = resolveStepsWithDeps(steps, ["test"]);
+		expect(children.map((s) => s.cmd)).toEqual([
+			"bun build",
+			"bun test --shard=1/2",
+			"bun test --shard=2/2",
+		]);
+	});
 });
@@ -2,14 +2,18 @@
  * Dependency graph utilities.
  */
 
+import { expandMatrixSteps, getMatrixChildren } from "./matrix";
 import type { Step } from "./types";
 
 /**
  * Resolves a set of steps and all their transitive dependencies.
  *
+ * Matrix steps are expanded into their children first; requesting or
+ * depending on a matrix step selects all of its children.
+ *
  * @param steps - All available steps
  * @param requestedNames - Names of steps to include
- * @returns Steps in dependency order (dependencies first)
+ * @returns Steps in dependency order (dependencies first), with matrix steps expanded
  * @throws Error if circular dependency or missing step detected
  *
  * @example
@@ -27,7 +31,9 @@ export function resolveStepsWithDeps(
 	steps: readonly Step[],
 	requestedNames: readonly string[],
 ): Step[] {
-	const stepMap = new Map(steps.map((s) => [s.name, s]));
+	const children = getMatrixChildren(steps);
+	const expanded = expandMatrixSteps(steps);
+	const stepMap = new Map(expanded.map((s) => [s.name, s]));
 	const needed = new Set<string>();
 	const visiting = new Set<string>();
 
@@ -47,9 +53,9 @@ export function resolveStepsWithDeps(
 		needed.add(name);
 	}
 
-	for (const name of requestedNames) {
+	for (const name of requestedNames.flatMap((n) => children.get(n) ?? [n])) {
 		addWithDeps(name);
 	}
 
-	return steps.filter((s) => needed.has(s.name));
+	return expanded.filter((s) => needed.has(s.name));
 }
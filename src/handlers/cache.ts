@@ -0,0 +1,62 @@
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+
+import { startCacheServer } from "#src/cache/index";
+import { GitUtil } from "#src/git-util";
+import type { ColorFn } from "#src/types";
+
+export async function handleCache(args: string[], c: ColorFn): Promise<void> {
+	const subcommand = args[0];
+	const restArgs = args.slice(1);
+
+	switch (subcommand) {
+		case "serve":
+			await handleServe(restArgs, c);
+			break;
+		default:
+			console.error(c("red", `Unknown subcommand: ${subcommand}`));
+			console.error(c("dim", "Available: serve"));
+			process.exit(1);
+	}
+}
+
+async function handleServe(args: string[], c: ColorFn): Promise<void> {
+	const { values } = parseArgs({
+		args,
+		options: {
+			dir: { type: "string" },
+			host: { type: "string" },
+			port: { short: "p", type: "string" },
+			token: { type: "string" },
+		},
+	});
+
+	const port = Number(values.port ?? process.env.PORT ?? 4000);
+	if (!Number.isInteger(port) || port < 0) {
+		console.error(c("red", `Error: Invalid port: ${values.port}`));
+		process.exit(1);
+	}
+
+	let dir = values.dir;
+	if (!dir) {
+		const gitRoot = await GitUtil.getGitRoot().catch(() => process.cwd());
+		dir = join(gitRoot, "node_modules", ".cache", "openturbo-server");
+	}
+
+	const server = startCacheServer({
+		dir,
+		port,
+		hostname: values.host,
+		token: values.token ?? process.env.OT_REMOTE_CACHE_TOKEN,
+	});
+
+	console.log(c("bold", "Cache server listening"));
+	console.log(`  ${c("cyan", server.url.href)}`);
+	console.log(c("dim", `  Storage: ${dir}`));
+	console.log(
+		c(
+			"dim",
+			`  Use: OT_REMOTE_CACHE_URL=${server.url.href} ot <job> --cache=remote`,
+		),
+	);
+}
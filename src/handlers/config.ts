@@ -0,0 +1,71 @@
+/**
+ * Config handler - prints the loaded configuration.
+ */
+
+import { relative } from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+	type ColorFn,
+	formatResolvedConfig,
+	GitUtil,
+	loadConfigFile,
+	loadResolvedConfig,
+} from "../mod";
+
+/**
+ * Handles `ot config <subcommand>`.
+ *
+ * @param args - Arguments after `config`
+ * @param configPath - Explicit `--config` path
+ * @param c - Colorizer
+ * @returns Exit code
+ */
+export async function handleConfig(
+	args: string[],
+	configPath: string | undefined,
+	c: ColorFn,
+): Promise<number> {
+	const subcommand = args[0];
+
+	switch (subcommand) {
+		case "print":
+			return handlePrint(args.slice(1), configPath, c);
+		default:
+			console.error(c("red", `Unknown subcommand: ${subcommand}`));
+			console.error(c("dim", "Available: print"));
+			return 1;
+	}
+}
+
+async function handlePrint(
+	args: string[],
+	configPath: string | undefined,
+	c: ColorFn,
+): Promise<number> {
+	const { values } = parseArgs({
+		args,
+		strict: false,
+		options: {
+			resolved: { type: "boolean" },
+		},
+	});
+
+	try {
+		const gitRoot = await GitUtil.getGitRoot();
+		if (values.resolved) {
+			const resolved = await loadResolvedConfig(configPath, gitRoot);
+			console.log(
+				formatResolvedConfig(resolved, (file) => relative(process.cwd(), file)),
+			);
+		} else {
+			const { config } = await loadConfigFile(configPath, gitRoot);
+			console.log(JSON.stringify(config, null, 2));
+		}
+		return 0;
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+}
@@ -2,22 +2,132 @@
  * Graph handler - displays dependency graph visualization.
  */
 
-import type { ColorFn, Step } from "../mod";
-
+import { getStepAction } from "../actions/registry";
+import { type AffectedResult, resolveChangedFiles } from "../affected";
+import { shouldRunOnPaths } from "../branch";
 import {
-	buildDependencyGraph,
-	discoverWorkspaces,
-	resolveTaskDependencies,
-	topologicalSort,
-} from "../npm-workspace";
+	createConditionContext,
+	isDeferredCondition,
+	needsChangedFiles,
+	parseStepConditions,
+} from "../condition";
+import { evaluateCondition } from "../expression";
+import { resolvePackageSelection } from "../filter";
+import { GitUtil } from "../git-util";
+import { expandMatrixSteps, getMatrixChildren } from "../matrix";
+import type { ColorFn, Step, Workflow } from "../mod";
 
-export async function handleGraph(
+export type HandleGraphOptions = {
+	/** Affected packages; bun task plans are reduced to this selection */
+	readonly affected?: AffectedResult;
+	/** Turborepo-style package selectors from `--filter` */
+	readonly filters?: readonly string[];
+	/** Workflow-level environment, visible to `if` conditions */
+	readonly env?: Readonly<Record<string, string>>;
+	/** Base ref for `paths` and `changed()` */
+	readonly base?: string;
+	/** All workflows, for listing the steps of `workflow:` steps */
+	readonly workflows?: Readonly<Record<string, Workflow>>;
+};
+
+type StepFilterDescription = {
+	readonly text: string;
+	readonly result?: boolean;
+};
+
+/**
+ * Evaluates step `paths` filters and the conditions that can be decided
+ * before the run.
+ *
+ * @returns Display lines for each step with `paths` or an `if` condition
+ */
+async function describeStepFilters(
 	steps: readonly Step[],
+	groups: ReadonlyMap<string, readonly string[]>,
+	gitRoot: string,
+	options: HandleGraphOptions,
+): Promise<Map<string, StepFilterDescription[]>> {
+	const conditions = parseStepConditions(steps, groups);
+	const descriptions = new Map<string, StepFilterDescription[]>();
+	const add = (name: string, description: StepFilterDescription) => {
+		descriptions.set(name, [...(descriptions.get(name) ?? []), description]);
+	};
+
+	const changedFiles =
+		needsChangedFiles(conditions) ||
+		steps.some((s) => s.paths && s.paths.length > 0)
+			? await resolveChangedFiles(gitRoot, options.base, options.affected)
+			: undefined;
+
+	for (const step of steps) {
+		if (!step.paths || step.paths.length === 0) continue;
+		const result = shouldRunOnPaths(step.paths, changedFiles ?? []);
+		add(step.name, {
+			text: `paths ${step.paths.join(", ")} → ${result ? "changed" : "unchanged"}`,
+			result,
+		});
+	}
+
+	if (conditions.size === 0) return descriptions;
+
+	const context = createConditionContext({
+		branch: await GitUtil.getCurrentBranch(),
+		inWorktree: await GitUtil.isInWorktree(gitRoot),
+		env: { ...process.env, ...options.env },
+		changedFiles,
+	});
+
+	for (const [name, expression] of conditions) {
+		const source = steps.find((s) => s.name === name)?.if ?? "";
+		if (isDeferredCondition(expression)) {
+			add(name, { text: `if ${source} → decided at runtime` });
+			continue;
+		}
+		try {
+			const result = evaluateCondition(expression, context);
+			add(name, { text: `if ${source} → ${result}`, result });
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			add(name, { text: `if ${source} → error: ${message}` });
+		}
+	}
+	return descriptions;
+}
+
+export async function handleGraph(
+	workflowSteps: readonly Step[],
 	c: ColorFn,
 	gitRoot: string,
+	options: HandleGraphOptions = {},
 ): Promise<void> {
+	const { affected, filters = [] } = options;
+	const steps = expandMatrixSteps(workflowSteps);
+	const selection = await resolvePackageSelection(gitRoot, filters, affected);
+	const filterDescriptions = await describeStepFilters(
+		steps,
+		getMatrixChildren(workflowSteps),
+		gitRoot,
+		options,
+	);
+
 	console.log();
 	console.log(c("bold", "  Dependency Graph"));
+	if (filters.length > 0 && selection) {
+		console.log(
+			c(
+				"dim",
+				`  Filter ${filters.join(" ")}: ${[...selection].join(", ") || "no packages"}`,
+			),
+		);
+	}
+	if (affected) {
+		console.log(
+			c(
+				"dim",
+				`  Affected against ${affected.base}: ${affected.packages.size} package(s), ${affected.changedFiles.length} changed file(s)`,
+			),
+		);
+	}
 	console.log();
 
 	const depths = new Map<string, number>();
@@ -68,46 +178,35 @@ export async function handleGraph(
 		const parallel = layer.length > 1 ? c("dim", " (parallel)") : "";
 		console.log(`  ${c("dim", `[${d}]`)} ${names}${parallel}`);
 
-		// Show nested bun action details
+		// Show evaluated path filters and conditions
 		for (const step of layer) {
-			if (step.bun) {
-				const bunAction = step.bun; // Capture for type narrowing in callbacks
-				try {
-					const packages = await discoverWorkspaces(gitRoot);
-					const packagesWithScript = packages.filter(
-						(p) => bunAction.script in p.scripts,
-					);
-
-					if (packagesWithScript.length > 0) {
-						const dependencyGraph = buildDependencyGraph(packages);
-						const nodes = resolveTaskDependencies(
-							bunAction.script,
-							bunAction.dependsOn ?? [],
-							packages,
-							dependencyGraph,
-						);
-						const taskLayers = topologicalSort(nodes);
-
-						console.log(c("dim", `       └─ ${step.name} (bun):`));
-						for (let i = 0; i < taskLayers.length; i++) {
-							const taskLayer = taskLayers[i];
-							if (!taskLayer) continue;
-							const taskNames = taskLayer
-								.map((n) => c("yellow", `${n.packageName}#${n.script}`))
-								.join(c("dim", " | "));
-							const taskParallel =
-								taskLayer.length > 1 ? c("dim", " (parallel)") : "";
-							console.log(
-								`          ${c("dim", `[${i}]`)} ${taskNames}${taskParallel}`,
-							);
-						}
-					}
-				} catch {
-					// Silently skip if workspace discovery fails
-				}
+			for (const description of filterDescriptions.get(step.name) ?? []) {
+				const color =
+					description.result === true
+						? "green"
+						: description.result === false
+							? "yellow"
+							: "dim";
+				console.log(c(color, `       └─ ${step.name}: ${description.text}`));
 			}
 		}
 
+		// Show what each step's action runs (workspace tasks, sub-workflows)
+		for (const step of layer) {
+			const action = getStepAction(step);
+			if (!action?.definition.graph) continue;
+			const lines = await action.definition.graph({
+				options: action.options,
+				step,
+				c,
+				gitRoot,
+				selection,
+				affected,
+				workflows: options.workflows,
+			});
+			for (const line of lines) console.log(line);
+		}
+
 		if (d < maxDepth) {
 			console.log(c("dim", "   ↓"));
 		}
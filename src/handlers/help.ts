@@ -2,7 +2,36 @@
  * Help handler - displays CLI usage information.
  */
 
-import type { ColorFn, Config } from "../mod";
+import type { ColorFn, Config, Param } from "../mod";
+import { getWorkflowParams } from "../mod";
+
+/**
+ * Formats a param as `--param name=<type>` with its description and default.
+ */
+function formatParamUsage(name: string, param: Param, c: ColorFn): string {
+	const type = param.type === "enum" ? param.values.join("|") : param.type;
+	const usage = `--param ${name}=<${type}>`;
+	const notes = [
+		param.description,
+		param.default !== undefined ? `default: ${param.default}` : undefined,
+		param.required && param.default === undefined ? "required" : undefined,
+	].filter((note) => note !== undefined);
+	return `      ${c("green", usage)}${notes.length > 0 ? c("dim", `  ${notes.join(", ")}`) : ""}`;
+}
+
+/**
+ * Formats a job with the params it accepts.
+ */
+function formatJob(name: string, config: Config, c: ColorFn): string {
+	const workflow = config.workflows[name];
+	const params = workflow ? getWorkflowParams(workflow) : undefined;
+	return [
+		`  ${c("cyan", name)}`,
+		...Object.entries(params ?? {}).map(([paramName, param]) =>
+			formatParamUsage(paramName, param, c),
+		),
+	].join("\n");
+}
 
 export function handleHelp(config: Config | null, c: ColorFn): void {
 	const jobs = config ? Object.keys(config.workflows) : [];
@@ -19,26 +48,58 @@ ${c("dim", "OPTIONS:")}
   ${c("green", "-v, --verbose")}      Show output for all steps
   ${c("green", "--fail-fast")}        Stop on first failure (default: true)
   ${c("green", "--graph")}            Show dependency graph and exit
+  ${c("green", "--cache <mode>")}     Task cache: local (default), remote, off
+  ${c("green", "--affected[=<ref>]")} Only run bun tasks for packages changed since <ref> (default: main)
+  ${c("green", "--base <ref>")}       Base ref for paths filters, changed() and --affected (default: main)
+  ${c("green", "--concurrency <n>")}  Max slots in flight across steps and bun tasks (number or % of CPUs)
+  ${c("green", "-F, --filter <sel>")} Restrict bun tasks to packages (repeatable, see PACKAGE FILTERS)
+  ${c("green", "-p, --param <k=v>")}  Set a workflow param (repeatable, see AVAILABLE JOBS)
+  ${c("green", "-- <args...>")}       Extra arguments, available to steps as \${{ args }}
   ${c("green", "--no-color")}         Disable colored output
   ${c("green", "-h, --help")}         Show this help message
 
+${c("dim", "COMMANDS:")}
+  ${c("cyan", "wt <subcommand>")}    Manage git worktrees (add, remove, list, copy)
+  ${c("cyan", "cache serve")}        Run a local remote-cache server (--port, --dir, --token)
+  ${c("cyan", "config print")}       Print the config (--resolved: after extends/include, with origins)
+  ${c("cyan", "validate")}           Report problems in all discovered configs (--format=json)
+  ${c("cyan", "schema")}             Print the config JSON schema, with plugin actions
+
 ${c("dim", "AVAILABLE JOBS:")}
-${jobs.length > 0 ? jobs.map((j) => `  ${c("cyan", j)}`).join("\n") : "  (no config loaded)"}
+${config && jobs.length > 0 ? jobs.map((j) => formatJob(j, config, c)).join("\n") : "  (no config loaded)"}
 
 ${c("dim", "CONFIG DISCOVERY:")}
   1. --config <path> (explicit)
   2. Search from CWD up to git root:
-     a. workflow.json or .jsonc
-     b. workflows.json or .jsonc
-     c. package.json → "workflows" field
-  3. At git root:
-     a. .config/workflow.json or .jsonc
-     b. .config/workflows.json or .jsonc
+     a. workflow.config.ts or .js
+     b. workflow.json or .jsonc
+     c. workflow.yaml, .yml or .toml
+     d. workflows.json or .jsonc
+     e. package.json → "workflows" field
+  3. At git root, the same files in .config/ (except package.json)
+
+${c("dim", "CONFIG VARIABLES:")} (in cmd, worktree:cp, base_dir and hook commands)
+  \${env:PORT}               Environment variable (error if unset)
+  \${env:PORT:-3000}         Environment variable with a default
+  \${git.root} \${git.branch} \${git.sha}
+  \${worktree.name}          Directory name of the current checkout
+  \${workflow.name}          Name of the step's workflow
+
+${c("dim", "PACKAGE FILTERS:")}
+  --filter=@app/backend      Package by name (globs allowed)
+  --filter=./apps/*          Packages by directory
+  --filter=...@lib/ui        Package and its dependents
+  --filter=@lib/ui...        Package and its dependencies
+  --filter=!@app/legacy      Exclude packages
 
 ${c("dim", "BRANCH FILTERING:")}
   branches: ["main"]         Only run on main
   branches: ["!main"]        Run on all except main
   branches: ["feature-*"]    Glob matching
   branches: ["worktree:*"]   Only in git worktrees
+
+${c("dim", "PATH FILTERING:")}
+  paths: ["apps/api/**"]     Only run when a matching file changed
+  paths: ["!**/*.md"]        Ignore changes to matching files
 `);
 }
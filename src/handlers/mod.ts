@@ -2,7 +2,10 @@
  * Re-exports all handler modules.
  */
 
+export * from "./cache";
+export * from "./config";
 export * from "./graph";
 export * from "./help";
 export * from "./run";
+export * from "./validate";
 export * from "./wt";
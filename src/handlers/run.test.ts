@@ -0,0 +1,92 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${{ matrix.* }} placeholders
+import { describe, expect, test } from "bun:test";
+import { parseStepConditions } from "../condition";
+import { resolveStepsWithDeps } from "../graph";
+import { getMatrixChildren } from "../matrix";
+import type { RunContext, Step } from "../types";
+import { runStepsWithDeps } from "./run";
+
+const run = (
+	steps: readonly Step[],
+	signal?: AbortSignal,
+	groups?: ReadonlyMap<string, readonly string[]>,
+) =>
+	runStepsWithDeps(
+		steps,
+		{
+			c: (_, text) => text,
+			failFast: true,
+			gitRoot: process.cwd(),
+			isTTY: false,
+			verbose: false,
+			signal,
+		} satisfies RunContext,
+		"main",
+		false,
+		{ expressions: parseStepConditions(steps, groups), groups },
+	);
+
+const statuses = async (
+	steps: readonly Step[],
+	signal?: AbortSignal,
+	groups?: ReadonlyMap<string, readonly string[]>,
+) =>
+	Object.fromEntries(
+		(await run(steps, signal, groups)).states.map((s) => [
+			s.step.name,
+			s.status,
+		]),
+	);
+
+describe("runStepsWithDeps", () => {
+	test("runs always steps declared before their dependencies", async () => {
+		expect(
+			await statuses([
+				{ name: "cleanup", cmd: "true", dependsOn: ["test"], always: true },
+				{ name: "lint", cmd: "false" },
+				{ name: "test", cmd: "true", dependsOn: ["lint"] },
+			]),
+		).toEqual({ cleanup: "done", lint: "failed", test: "skipped" });
+	});
+
+	test("runs always steps after cancellation", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		expect(
+			await statuses(
+				[
+					{ name: "build", cmd: "true" },
+					{ name: "cleanup", cmd: "true", dependsOn: ["build"], always: true },
+				],
+				controller.signal,
+			),
+		).toEqual({ build: "skipped", cleanup: "done" });
+	});
+
+	test("reads the combined status of a matrix parent", async () => {
+		const workflow: Step[] = [
+			{
+				name: "test",
+				cmd: "exit ${{ matrix.code }}",
+				matrix: { code: [0, 1] },
+			},
+			{
+				name: "report",
+				cmd: "true",
+				dependsOn: ["test"],
+				if: "steps.test.status == 'failed'",
+			},
+		];
+		const steps = resolveStepsWithDeps(
+			workflow,
+			workflow.map((s) => s.name),
+		);
+		expect(
+			await statuses(steps, undefined, getMatrixChildren(workflow)),
+		).toEqual({
+			"test[code=0]": "done",
+			"test[code=1]": "failed",
+			report: "done",
+		});
+	});
+});
@@ -2,59 +2,288 @@
  * Run handler - executes workflow steps with dependency resolution.
  */
 
-import type { ColorFn, RunContext, Step, StepResult, StepState } from "../mod";
+import type {
+	ActionResult,
+	AffectedResult,
+	CacheMode,
+	ColorFn,
+	Config,
+	Expression,
+	ParamValues,
+	ProgressPrinter,
+	ResourceRequest,
+	RunContext,
+	Step,
+	StepEnv,
+	StepResult,
+	StepState,
+	StepStatus,
+	TaskCache,
+	WorkflowRef,
+} from "../mod";
 
 import {
+	aggregateStatus,
+	applyStepOutputs,
+	type CacheTarget,
+	checkOutputReferences,
+	checkWorkflowReferences,
+	computeTaskHash,
+	createConditionContext,
 	createProgressPrinter,
+	createTaskCache,
+	evaluateCondition,
+	formatAffectedReason,
 	formatDuration,
 	GitUtil,
+	getConditionSteps,
+	getMatrixChildren,
+	getStepAction,
 	getSteps,
+	getTemplateContext,
+	getWorkflowBase,
+	getWorkflowEnv,
+	interpolateConfig,
+	isDeferredCondition,
 	loadConfig,
+	needsChangedFiles,
+	normalizeWorkflowRef,
+	parseParamArgs,
+	parseStepConditions,
+	ResourcePool,
+	resolveAffected,
+	resolveChangedFiles,
+	resolvePackageSelection,
+	resolveStepCwd,
+	resolveStepEnv,
 	resolveStepsWithDeps,
-	runBunAction,
-	runCmdAction,
-	runWorktreeCpAction,
+	resolveSubWorkflow,
+	resolveWorkflowSteps,
 	shouldRunOnBranch,
+	shouldRunOnPaths,
+	withRetry,
+	withTiming,
 } from "../mod";
 
-async function runStep(step: Step, ctx: RunContext): Promise<StepResult> {
-	if (step.cmd) {
-		const result = await runCmdAction(step.cmd, { verbose: ctx.verbose });
-		return { ...result, name: step.name };
+/**
+ * Resolves the cache target for a step that declares `inputs`.
+ * The resolved step environment is part of the hash, so editing an
+ * `envFile` invalidates the cache.
+ */
+async function getStepCacheTarget(
+	step: Step,
+	ctx: RunContext,
+	upstreamHashes: readonly string[],
+	env: StepEnv,
+): Promise<CacheTarget | undefined> {
+	if (!ctx.cache || !step.inputs) return undefined;
+	const hash = await computeTaskHash({
+		definition: { ...step, env },
+		cwd: ctx.gitRoot,
+		inputs: step.inputs,
+		upstream: upstreamHashes,
+	});
+	return {
+		cache: ctx.cache,
+		hash,
+		cwd: ctx.gitRoot,
+		outputs: step.outputs ?? [],
+	};
+}
+
+/**
+ * Slots a step (or each task of a `bun` step) takes from the run-wide pool.
+ */
+function getStepWeight(step: Step): number {
+	return step.resources?.cpu ?? step.weight ?? 1;
+}
+
+/**
+ * Builds the pool request held for the whole duration of a step.
+ * Steps whose action has nested tasks (`bun`, `workflow`) hold only their
+ * mutexes; the nested tasks acquire slots.
+ */
+function getStepResourceRequest(step: Step): ResourceRequest {
+	const mutex = step.resources?.mutex;
+	return {
+		slots: getStepAction(step)?.definition.nested ? 0 : getStepWeight(step),
+		mutexes: mutex === undefined ? [] : Array.isArray(mutex) ? mutex : [mutex],
+	};
+}
+
+/**
+ * Runs a step, retrying it according to its `retry` policy.
+ * With a policy, the duration covers every attempt including delays.
+ */
+async function runStep(
+	step: Step,
+	ctx: RunContext,
+	upstreamHashes: readonly string[],
+): Promise<StepResult> {
+	if (ctx.signal?.aborted) {
+		return {
+			success: false,
+			output: "Cancelled before start",
+			duration: 0,
+			name: step.name,
+			cancelled: true,
+		};
 	}
 
-	if (step["worktree:cp"]) {
-		const result = await runWorktreeCpAction(step["worktree:cp"], {
-			gitRoot: ctx.gitRoot,
-			getWorktrees: GitUtil.getWorktrees,
-			verbose: ctx.verbose,
-		});
-		return { ...result, name: step.name };
+	if (!step.retry) return runStepAction(step, ctx, upstreamHashes);
+
+	const start = performance.now();
+	const result = await withRetry(
+		step.retry,
+		() => runStepAction(step, ctx, upstreamHashes),
+		{
+			signal: ctx.signal,
+			onRetry: (attempt, attempts) =>
+				ctx.printer?.updateStep(step.name, { retry: { attempt, attempts } }),
+		},
+	);
+	return { ...result, duration: Math.round(performance.now() - start) };
+}
+
+async function runStepAction(
+	step: Step,
+	ctx: RunContext,
+	upstreamHashes: readonly string[],
+): Promise<StepResult> {
+	// Without `cwd`, commands keep running in the process cwd
+	let cwd: string | undefined;
+	let env: StepEnv;
+	try {
+		cwd =
+			step.cwd === undefined
+				? undefined
+				: await resolveStepCwd(step.cwd, ctx.gitRoot, GitUtil.getWorktrees);
+		env = resolveStepEnv(step, ctx.env, cwd ?? process.cwd());
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		return { success: false, output: message, duration: 0, name: step.name };
 	}
 
-	if (step.bun) {
-		const result = await runBunAction(step.bun, {
-			gitRoot: ctx.gitRoot,
-			verbose: ctx.verbose,
-			stepName: step.name,
-			printer: ctx.printer,
-		});
-		return { ...result, name: step.name };
+	const action = getStepAction(step);
+	if (!action) {
+		return {
+			success: false,
+			output: `Step "${step.name}" has no action defined`,
+			duration: 0,
+			name: step.name,
+		};
 	}
 
-	return {
-		success: false,
-		output: `Step "${step.name}" has no action defined`,
-		duration: 0,
-		name: step.name,
-	};
+	const result = await action.definition.run(
+		{
+			options: action.options,
+			step,
+			run: ctx,
+			cwd,
+			env,
+			upstreamHashes,
+			weight: getStepWeight(step),
+			getCacheTarget: () => getStepCacheTarget(step, ctx, upstreamHashes, env),
+			runWorkflow: (ref) => runSubWorkflow(step, ref, ctx, env),
+		},
+		ctx.signal,
+	);
+	return { ...result, name: step.name };
 }
 
-function printFailureDetails(result: StepResult, c: ColorFn): void {
+/**
+ * Runs the workflow a `workflow:` step references, showing its steps as
+ * nested tasks of the calling step.
+ */
+async function runSubWorkflow(
+	step: Step,
+	ref: WorkflowRef,
+	ctx: RunContext,
+	env: StepEnv,
+): Promise<ActionResult> {
+	return withTiming(async () => {
+		const { subWorkflows, printer } = ctx;
+		if (!subWorkflows) {
+			return { success: false, output: "Sub-workflows are not available" };
+		}
+
+		const sub = resolveSubWorkflow(
+			subWorkflows.workflows,
+			normalizeWorkflowRef(ref),
+			subWorkflows.params,
+			subWorkflows.args,
+		);
+
+		printer?.setNested(
+			step.name,
+			sub.steps.map((s) => ({ id: s.name, status: "pending" })),
+		);
+		const display: StepDisplay | undefined = printer && {
+			updateStep: (name, update) =>
+				printer.updateNested(step.name, name, update),
+			initialRender: () => {},
+			cleanup: () => {},
+		};
+
+		// Nested steps of the sub-workflow (e.g. bun tasks) are not displayed
+		const { states, failures } = await runStepsWithDeps(
+			sub.steps,
+			{
+				...ctx,
+				printer: undefined,
+				env: { ...env, ...getWorkflowEnv(sub.workflow), ...step.env },
+				subWorkflows: { ...subWorkflows, params: sub.params },
+			},
+			subWorkflows.currentBranch,
+			subWorkflows.inWorktree,
+			{
+				expressions: parseStepConditions(sub.steps, sub.groups),
+				changedFiles: subWorkflows.changedFiles,
+				groups: sub.groups,
+			},
+			display,
+		);
+
+		const symbols: Partial<Record<StepStatus, string>> = {
+			done: "✓",
+			cached: "↺",
+			warning: "⚠",
+			skipped: "○",
+			cancelled: "⊘",
+			timeout: "⏱",
+		};
+		const logs = states.map(
+			(s) =>
+				`  ${symbols[s.status] ?? "✗"} ${s.step.name} (${formatDuration(s.duration)})`,
+		);
+		for (const failure of failures) {
+			logs.push("", `[${failure.name}]`, failure.output.trimEnd());
+		}
+
+		return {
+			success: states.every(
+				(s) => s.status !== "failed" && s.status !== "timeout",
+			),
+			output: logs.join("\n"),
+			cancelled: ctx.signal?.aborted || undefined,
+			flakyTasks: states
+				.filter((s) => s.status === "done" && (s.attempts ?? 1) > 1)
+				.map((s) => s.step.name),
+		};
+	});
+}
+
+function printFailureDetails(
+	result: StepResult,
+	c: ColorFn,
+	allowed: boolean,
+): void {
+	const color = allowed ? "yellow" : "red";
+	const label = allowed ? "FAILED (allowed)" : "FAILED";
 	console.log();
-	console.log(c("red", `${"─".repeat(60)}`));
-	console.log(c("red", `  FAILED: ${result.name}`));
-	console.log(c("red", `${"─".repeat(60)}`));
+	console.log(c(color, `${"─".repeat(60)}`));
+	console.log(c(color, `  ${label}: ${result.name}`));
+	console.log(c(color, `${"─".repeat(60)}`));
 	console.log();
 	console.log(result.output);
 }
@@ -65,46 +294,203 @@ function printSummary(
 	c: ColorFn,
 ): void {
 	const passed = states.filter((s) => s.status === "done").length;
+	const cached = states.filter((s) => s.status === "cached").length;
 	const failed = states.filter((s) => s.status === "failed").length;
+	const timedOut = states.filter((s) => s.status === "timeout").length;
+	const allowed = states.filter((s) => s.status === "warning");
+	const cancelled = states.filter((s) => s.status === "cancelled");
 	const skipped = states.filter(
 		(s) => s.status === "skipped" || s.status === "pending",
 	).length;
 
 	console.log();
 
-	if (failed === 0 && skipped === 0) {
+	if (cancelled.length > 0) {
 		console.log(
-			c("green", `✨ All ${passed} steps passed!`) +
-				c("dim", ` (${formatDuration(totalDuration)})`),
+			c(
+				"yellow",
+				`⊘ Run cancelled; interrupted: ${cancelled.map((s) => s.step.name).join(", ")}`,
+			),
+		);
+	}
+
+	if (
+		failed === 0 &&
+		timedOut === 0 &&
+		allowed.length === 0 &&
+		cancelled.length === 0 &&
+		skipped === 0
+	) {
+		const cachedNote = cached > 0 ? `, ${cached} cached` : "";
+		console.log(
+			c("green", `✨ All ${passed + cached} steps passed!`) +
+				c("dim", ` (${formatDuration(totalDuration)}${cachedNote})`),
 		);
 	} else {
 		const parts: string[] = [];
 		if (passed > 0) parts.push(c("green", `${passed} passed`));
+		if (cached > 0) parts.push(c("blue", `${cached} cached`));
 		if (failed > 0) parts.push(c("red", `${failed} failed`));
+		if (timedOut > 0) parts.push(c("red", `${timedOut} timed out`));
+		if (allowed.length > 0) {
+			parts.push(c("yellow", `${allowed.length} failed (allowed)`));
+		}
+		if (cancelled.length > 0) {
+			parts.push(c("yellow", `${cancelled.length} cancelled`));
+		}
 		if (skipped > 0) parts.push(c("yellow", `${skipped} skipped`));
 		console.log(
 			`  ${parts.join(c("dim", " · "))} ${c("dim", `(${formatDuration(totalDuration)})`)}`,
 		);
 	}
+
+	if (allowed.length > 0) {
+		console.log(
+			c(
+				"yellow",
+				`⚠ Allowed to fail: ${allowed.map((s) => s.step.name).join(", ")}`,
+			),
+		);
+	}
+
+	const flaky = states.filter(
+		(s) =>
+			s.status === "done" &&
+			((s.attempts ?? 1) > 1 || (s.flakyTasks?.length ?? 0) > 0),
+	);
+	if (flaky.length > 0) {
+		console.log();
+		console.log(c("yellow", "⚠ Passed only after retrying:"));
+		for (const state of flaky) {
+			const details = [
+				(state.attempts ?? 1) > 1 ? `${state.attempts} attempts` : "",
+				state.flakyTasks?.join(", ") ?? "",
+			].filter(Boolean);
+			console.log(
+				c("yellow", `  - ${state.step.name} (${details.join("; ")})`),
+			);
+		}
+	}
 }
 
-async function runStepsWithDeps(
+function printAffected(
+	affected: AffectedResult,
+	verbose: boolean,
+	c: ColorFn,
+): void {
+	const names = [...affected.packages.keys()];
+	console.log(
+		c(
+			"dim",
+			`Affected (base: ${affected.base}): ${names.length > 0 ? names.join(", ") : "none"}`,
+		),
+	);
+	if (verbose) {
+		for (const [name, reason] of affected.packages) {
+			console.log(c("dim", `  ${name} ← ${formatAffectedReason(reason)}`));
+		}
+	}
+}
+
+/**
+ * Parsed step conditions and the changed files `paths` and `changed()` read.
+ */
+type RunConditions = {
+	readonly expressions: ReadonlyMap<string, Expression>;
+	readonly changedFiles?: readonly string[];
+	/** Matrix child step names by parent name, for `steps.<parent>` */
+	readonly groups?: ReadonlyMap<string, readonly string[]>;
+};
+
+/**
+ * Receives step status updates: the progress printer for the top-level run,
+ * or nested task lines for the steps of a sub-workflow.
+ */
+type StepDisplay = Pick<
+	ProgressPrinter,
+	"updateStep" | "initialRender" | "cleanup"
+>;
+
+/**
+ * Final step states and failed step results in completion order.
+ */
+type StepRunOutcome = {
+	readonly states: readonly StepState[];
+	readonly failures: readonly StepResult[];
+};
+
+/**
+ * Runs steps in dependency order, sharing the context's pool.
+ */
+export async function runStepsWithDeps(
 	steps: readonly Step[],
 	ctx: RunContext,
 	currentBranch: string,
 	inWorktree: boolean,
-): Promise<readonly StepState[]> {
-	const { printer } = ctx;
+	conditions: RunConditions,
+	display: StepDisplay | undefined = ctx.printer,
+): Promise<StepRunOutcome> {
 	const states = new Map<string, StepState>();
 	const stepNames = new Set(steps.map((s) => s.name));
 
+	let hasFailed = false;
+	const completed = new Set<string>();
+	const running = new Map<string, Promise<StepResult>>();
+	const failures: StepResult[] = [];
+	const env = { ...process.env, ...ctx.env };
+
+	// Skips the step when its condition is false; evaluation errors fail it
+	const passesCondition = (step: Step, expression: Expression): boolean => {
+		const state = states.get(step.name);
+		if (!state) return false;
+		try {
+			const stepInfo = Object.fromEntries(
+				[...states.values()].map((s) => [
+					s.step.name,
+					{ status: s.status, duration: s.duration, outputs: s.outputs ?? {} },
+				]),
+			);
+			// A matrix parent reports the combined status of its children
+			for (const [parent, children] of conditions.groups ?? []) {
+				const childStates = children.flatMap((name) => states.get(name) ?? []);
+				if (childStates.length === 0) continue;
+				stepInfo[parent] = {
+					status: aggregateStatus(childStates.map((s) => s.status)),
+					duration: Math.max(...childStates.map((s) => s.duration)),
+					outputs: {},
+				};
+			}
+			const context = createConditionContext({
+				branch: currentBranch,
+				inWorktree,
+				env,
+				changedFiles: conditions.changedFiles,
+				steps: stepInfo,
+			});
+			if (evaluateCondition(expression, context)) return true;
+			state.status = "skipped";
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			state.status = "failed";
+			state.output = `Condition "${step.if}": ${message}`;
+			failures.push({
+				name: step.name,
+				output: state.output,
+				success: false,
+				duration: 0,
+			});
+			hasFailed = true;
+		}
+		display?.updateStep(step.name, { status: state.status });
+		completed.add(step.name);
+		return false;
+	};
+
 	// Initialize all states
 	for (const step of steps) {
-		const shouldRun = shouldRunOnBranch(
-			step.branches,
-			currentBranch,
-			inWorktree,
-		);
+		const shouldRun =
+			shouldRunOnBranch(step.branches, currentBranch, inWorktree) &&
+			shouldRunOnPaths(step.paths, conditions.changedFiles ?? []);
 		const status = shouldRun ? "pending" : "skipped";
 		states.set(step.name, {
 			duration: 0,
@@ -113,36 +499,61 @@ async function runStepsWithDeps(
 			step,
 		});
 		// Update printer with initial state
-		printer?.updateStep(step.name, { status });
+		display?.updateStep(step.name, { status });
 	}
 
-	// Initial render
-	printer?.initialRender();
+	// Conditions that do not read other steps are decided before the run
+	for (const step of steps) {
+		const expression = conditions.expressions.get(step.name);
+		if (
+			expression &&
+			states.get(step.name)?.status === "pending" &&
+			!isDeferredCondition(expression)
+		) {
+			passesCondition(step, expression);
+		}
+	}
 
-	let hasFailed = false;
-	const completed = new Set<string>();
-	const running = new Map<string, Promise<StepResult>>();
+	// Initial render
+	display?.initialRender();
 
 	const _canRun = (step: Step): boolean => {
 		for (const dep of step.dependsOn ?? []) {
 			if (!stepNames.has(dep)) continue;
 			const depState = states.get(dep);
-			if (!depState || depState.status !== "done") {
+			if (
+				!depState ||
+				(depState.status !== "done" && depState.status !== "cached")
+			) {
 				return false;
 			}
 		}
 		return true;
 	};
 
-	const failures: StepResult[] = [];
-
 	while (completed.size < steps.length) {
+		// Steps settled in a pass can unblock steps declared before them
+		const settledBefore = completed.size;
 		for (const step of steps) {
 			const state = states.get(step.name);
 			if (!state || state.status !== "pending") continue;
-			if (hasFailed && ctx.failFast) {
+
+			// A condition reading `steps.<name>` decides for itself how to react
+			// to those steps failing, so it waits for them to finish in any state
+			const expression = conditions.expressions.get(step.name);
+			const readsSteps = expression
+				? getConditionSteps(expression, conditions.groups)
+				: new Set<string>();
+
+			// `always` steps still run after a failure or cancellation;
+			// conditions reading steps still run after a failure
+			if (
+				!step.always &&
+				((hasFailed && ctx.failFast && readsSteps.size === 0) ||
+					ctx.signal?.aborted)
+			) {
 				state.status = "skipped";
-				printer?.updateStep(step.name, { status: "skipped" });
+				display?.updateStep(step.name, { status: "skipped" });
 				completed.add(step.name);
 				continue;
 			}
@@ -150,64 +561,125 @@ async function runStepsWithDeps(
 				.map((dep) => states.get(dep))
 				.filter((d) => d && stepNames.has(d.step.name));
 
-			// Skip this step if any of its dependencies failed or were skipped.
+			// Skip this step if any of its dependencies failed, timed out or were skipped.
 			if (
-				depStates.some((s) => s?.status === "failed" || s?.status === "skipped")
+				!step.always &&
+				depStates.some(
+					(s) =>
+						s !== undefined &&
+						!readsSteps.has(s.step.name) &&
+						(s.status === "failed" ||
+							s.status === "timeout" ||
+							s.status === "skipped"),
+				)
 			) {
 				state.status = "skipped";
-				printer?.updateStep(step.name, { status: "skipped" });
+				display?.updateStep(step.name, { status: "skipped" });
 				completed.add(step.name);
 				continue;
 			}
 
-			// Wait if any dependencies are not yet done.
-			if (depStates.some((s) => s?.status !== "done")) {
+			// Wait if any dependencies are not yet done; `always` steps (and
+			// steps read by the condition) only wait for them to finish,
+			// whatever the outcome.
+			if (
+				depStates.some((s) =>
+					step.always || (s && readsSteps.has(s.step.name))
+						? s?.status === "pending" || s?.status === "running"
+						: s?.status !== "done" &&
+							s?.status !== "cached" &&
+							s?.status !== "warning",
+				)
+			) {
+				continue;
+			}
+
+			if (
+				expression &&
+				readsSteps.size > 0 &&
+				!passesCondition(step, expression)
+			) {
 				continue;
 			}
 
+			// Reserve the step immediately; the printer shows it as running
+			// once its pool slots and mutexes are acquired
 			state.status = "running";
-			printer?.updateStep(step.name, { status: "running" });
-
-			const promise = runStep(step, ctx).then((result) => {
-				const state = states.get(step.name);
-				if (state) {
-					state.status = result.success ? "done" : "failed";
-					state.duration = result.duration;
-					state.output = result.output;
-				}
-				printer?.updateStep(step.name, {
-					status: result.success ? "done" : "failed",
-					duration: result.duration,
+
+			const upstreamHashes = depStates.flatMap((s) => s?.hash ?? []);
+			const resolvedStep = applyStepOutputs(
+				step,
+				Object.fromEntries(
+					depStates.flatMap((s) => (s ? [[s.step.name, s.outputs ?? {}]] : [])),
+				),
+			);
+			const request = getStepResourceRequest(step);
+			const acquire = ctx.pool
+				? ctx.pool.acquire(request)
+				: Promise.resolve(() => {});
+			const promise = acquire
+				.then((release) => {
+					display?.updateStep(step.name, { status: "running" });
+					// Cleanup started after cancellation must not be cancelled itself
+					const stepCtx =
+						step.always && ctx.signal?.aborted
+							? { ...ctx, signal: undefined }
+							: ctx;
+					return runStep(resolvedStep, stepCtx, upstreamHashes).finally(
+						release,
+					);
+				})
+				.then((result) => {
+					const status = result.cancelled
+						? "cancelled"
+						: result.cached
+							? "cached"
+							: result.success
+								? "done"
+								: step.allowFailure
+									? "warning"
+									: result.timedOut
+										? "timeout"
+										: "failed";
+					const state = states.get(step.name);
+					if (state) {
+						state.status = status;
+						state.duration = result.duration;
+						state.output = result.output;
+						state.hash = result.hash;
+						state.timeout = result.timeout;
+						state.attempts = result.attempts;
+						state.flakyTasks = result.flakyTasks;
+						state.outputs = result.outputs;
+					}
+					display?.updateStep(step.name, {
+						status,
+						duration: result.duration,
+						timeout: result.timeout,
+					});
+					if (!result.success) {
+						if (!step.allowFailure) hasFailed = true;
+						if (!result.cancelled) failures.push(result);
+					}
+					completed.add(step.name);
+					running.delete(step.name);
+					return result;
 				});
-				if (!result.success) {
-					hasFailed = true;
-					failures.push(result);
-				}
-				completed.add(step.name);
-				running.delete(step.name);
-				return result;
-			});
 
 			running.set(step.name, promise);
 		}
 
 		if (running.size > 0) {
 			await Promise.race(running.values());
-		} else if (completed.size < steps.length) {
+		} else if (completed.size === settledBefore) {
 			break;
 		}
 	}
 
 	// Cleanup printer
-	printer?.cleanup();
+	display?.cleanup();
 
-	if (!ctx.verbose) {
-		for (const failure of failures) {
-			printFailureDetails(failure, ctx.c);
-		}
-	}
-
-	return [...states.values()];
+	return { states: [...states.values()], failures };
 }
 
 export type HandleRunOptions = {
@@ -215,16 +687,52 @@ export type HandleRunOptions = {
 	readonly configPath: string | undefined;
 	readonly verbose: boolean;
 	readonly failFast: boolean;
+	readonly cacheMode: CacheMode;
+	/** Only run workspace tasks for packages changed against this base ref (true: default base) */
+	readonly affected?: string | true;
+	/** Base ref for `paths`, `changed()` and `--affected`; overrides the workflow `base` */
+	readonly base?: string;
+	/** Raw `--param key=value` arguments */
+	readonly params?: readonly string[];
+	/** Arguments after `--`, available as `${{ args }}` */
+	readonly args?: readonly string[];
+	/** Turborepo-style package selectors from `--filter` */
+	readonly filters?: readonly string[];
+	/** Maximum slots in flight across steps and workspace tasks */
+	readonly concurrency?: number;
+	/** Aborted to cancel the run (e.g. on Ctrl-C) */
+	readonly signal?: AbortSignal;
 	readonly isTTY: boolean;
 	readonly c: ColorFn;
 };
 
 export async function handleRun(options: HandleRunOptions): Promise<number> {
-	const { jobName, configPath, verbose, failFast, isTTY, c } = options;
+	const {
+		jobName,
+		configPath,
+		verbose,
+		failFast,
+		cacheMode,
+		affected: affectedBase,
+		params: paramArgs = [],
+		args = [],
+		filters = [],
+		concurrency,
+		signal,
+		isTTY,
+		c,
+	} = options;
 
 	const gitRoot = await GitUtil.getGitRoot();
-	const config = await loadConfig(configPath, gitRoot);
-	const workflow = config.workflows[jobName];
+	let config: Config;
+	try {
+		config = await loadConfig(configPath, gitRoot);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+	let workflow = config.workflows[jobName];
 
 	if (!workflow) {
 		const available = Object.keys(config.workflows).join(", ");
@@ -233,7 +741,57 @@ export async function handleRun(options: HandleRunOptions): Promise<number> {
 		return 1;
 	}
 
-	const steps = getSteps(workflow);
+	let steps: readonly Step[];
+	let params: ParamValues;
+	let rawParams: Record<string, string>;
+	try {
+		// Only the workflows this run uses need their variables defined
+		config = interpolateConfig(config, await getTemplateContext(gitRoot), {
+			workflows: [
+				jobName,
+				...checkWorkflowReferences(config.workflows, jobName),
+			],
+			worktree: false,
+		});
+		workflow = config.workflows[jobName] ?? workflow;
+		rawParams = parseParamArgs(paramArgs);
+		({ steps, params } = resolveWorkflowSteps(workflow, rawParams, args));
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+
+	let cache: TaskCache | undefined;
+	try {
+		cache = createTaskCache(gitRoot, cacheMode, config.cache);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+
+	const base = options.base ?? getWorkflowBase(workflow);
+	let affected: AffectedResult | undefined;
+	let packageSelection: ReadonlySet<string> | undefined;
+	try {
+		if (affectedBase !== undefined) {
+			affected = await resolveAffected(
+				gitRoot,
+				affectedBase === true ? base : affectedBase,
+			);
+		}
+		packageSelection = await resolvePackageSelection(
+			gitRoot,
+			filters,
+			affected,
+		);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+
 	const currentBranch = await GitUtil.getCurrentBranch();
 	const inWorktree = await GitUtil.isInWorktree(gitRoot);
 
@@ -243,11 +801,73 @@ export async function handleRun(options: HandleRunOptions): Promise<number> {
 		c("dim", `Branch: ${currentBranch}${inWorktree ? " (worktree)" : ""}`),
 	);
 	console.log(c("dim", `Steps: ${steps.length}`));
+	const paramText = Object.entries(params)
+		.filter(([, value]) => value !== undefined)
+		.map(([name, value]) => `${name}=${value}`)
+		.join(", ");
+	if (paramText) {
+		console.log(c("dim", `Params: ${paramText}`));
+	}
+	if (affected) {
+		printAffected(affected, verbose, c);
+	}
+	if (filters.length > 0 && packageSelection) {
+		const names = [...packageSelection];
+		console.log(
+			c(
+				"dim",
+				`Packages (${filters.join(" ")}): ${names.length > 0 ? names.join(", ") : "none"}`,
+			),
+		);
+	}
 	console.log();
 
-	// Create progress printer for centralized TTY display
-	const stepNames = steps.map((s) => s.name);
-	const printer = createProgressPrinter(stepNames, { isTTY, c });
+	let stepsToRun: Step[];
+	let conditions: RunConditions;
+	let groups: Map<string, string[]>;
+	try {
+		stepsToRun = resolveStepsWithDeps(
+			steps,
+			steps.map((s) => s.name),
+		);
+		groups = getMatrixChildren(steps);
+		const expressions = parseStepConditions(stepsToRun, groups);
+		// Sub-workflow steps share the run's changed files
+		const nestedSteps = checkWorkflowReferences(
+			config.workflows,
+			jobName,
+		).flatMap((name) => {
+			const nested = config.workflows[name];
+			return nested ? getSteps(nested) : [];
+		});
+		checkOutputReferences(
+			[...stepsToRun, ...nestedSteps],
+			new Map([...groups, ...getMatrixChildren(nestedSteps)]),
+		);
+		conditions = {
+			expressions,
+			groups,
+			changedFiles:
+				needsChangedFiles(expressions) ||
+				needsChangedFiles(parseStepConditions(nestedSteps)) ||
+				[...stepsToRun, ...nestedSteps].some(
+					(s) => s.paths && s.paths.length > 0,
+				)
+					? await resolveChangedFiles(gitRoot, base, affected)
+					: undefined,
+		};
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+
+	// Create progress printer for centralized TTY display; matrix children
+	// are shown under their parent step
+	const printer = createProgressPrinter(
+		stepsToRun.map((s) => s.name),
+		{ isTTY, c, groups },
+	);
 
 	const ctx: RunContext = {
 		c,
@@ -256,28 +876,48 @@ export async function handleRun(options: HandleRunOptions): Promise<number> {
 		isTTY,
 		verbose,
 		printer,
+		cache,
+		packageSelection,
+		pool: new ResourcePool(concurrency),
+		signal,
+		env: getWorkflowEnv(workflow),
+		subWorkflows: {
+			workflows: config.workflows,
+			params: rawParams,
+			args,
+			currentBranch,
+			inWorktree,
+			changedFiles: conditions.changedFiles,
+		},
 	};
 
-	let stepsToRun: Step[];
-	try {
-		stepsToRun = resolveStepsWithDeps(steps, stepNames);
-	} catch (e) {
-		const message = e instanceof Error ? e.message : String(e);
-		console.error(c("red", `Error: ${message}`));
-		return 1;
-	}
 	const startTime = performance.now();
 
-	const states = await runStepsWithDeps(
+	const { states, failures } = await runStepsWithDeps(
 		stepsToRun,
 		ctx,
 		currentBranch,
 		inWorktree,
+		conditions,
 	);
 
+	if (!verbose) {
+		for (const failure of failures) {
+			printFailureDetails(
+				failure,
+				c,
+				states.find((s) => s.step.name === failure.name)?.status === "warning",
+			);
+		}
+	}
+
 	const totalDuration = Math.round(performance.now() - startTime);
 	printSummary(states, totalDuration, c);
 
-	const hasFailures = states.some((s) => s.status === "failed");
+	if (signal?.aborted) return 130;
+
+	const hasFailures = states.some(
+		(s) => s.status === "failed" || s.status === "timeout",
+	);
 	return hasFailures ? 1 : 0;
 }
@@ -0,0 +1,230 @@
+/**
+ * Validate handler - reports every problem in the discovered configs.
+ */
+
+import { relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+	type ColorFn,
+	type Config,
+	type ConfigProblem,
+	ConfigSchemaError,
+	discoverWorkspaces,
+	findConfigFiles,
+	GitUtil,
+	lintConfig,
+	lintShadowedConfig,
+	loadResolvedConfig,
+	locateConfigValue,
+	type WorkspacePackage,
+} from "../mod";
+
+/**
+ * A problem with the file and position it was found at.
+ */
+type LocatedProblem = Omit<ConfigProblem, "path"> & {
+	readonly file: string;
+	readonly path?: string;
+	readonly line?: number;
+	readonly column?: number;
+};
+
+/**
+ * Finds the file that defines a problem's value and its position there.
+ */
+async function locateProblem(
+	problem: ConfigProblem,
+	origins: ReadonlyMap<string, string>,
+	fallbackFile: string,
+): Promise<LocatedProblem> {
+	const { path, ...rest } = problem;
+	let file = fallbackFile;
+	for (let length = path.length; length >= 0; length--) {
+		const origin = origins.get(path.slice(0, length).join("."));
+		if (origin) {
+			file = origin;
+			break;
+		}
+	}
+	const location = await locateConfigValue(file, path);
+	return {
+		...rest,
+		file: relative(process.cwd(), file),
+		path: path.join("."),
+		line: location?.line,
+		column: location?.column,
+	};
+}
+
+/**
+ * Checks one config file, after `extends` and `include`. Schema violations
+ * are reported one by one, and the rest of the config is checked as well.
+ *
+ * @returns Problems, and the files the config is composed from
+ */
+async function validateFile(
+	file: string,
+	gitRoot: string,
+	packages: readonly WorkspacePackage[],
+	loadedFile: string | undefined,
+): Promise<{
+	readonly problems: LocatedProblem[];
+	readonly files: ReadonlySet<string>;
+}> {
+	let config: Config | undefined;
+	let origins: ReadonlyMap<string, string>;
+	const problems: ConfigProblem[] = [];
+	try {
+		({ config, origins } = await loadResolvedConfig(file, gitRoot));
+	} catch (e) {
+		if (!(e instanceof ConfigSchemaError)) {
+			const message = e instanceof Error ? e.message : String(e);
+			return {
+				problems: [
+					{
+						severity: "error",
+						rule: "invalid-config",
+						message,
+						file: relative(process.cwd(), file),
+					},
+				],
+				files: new Set([file]),
+			};
+		}
+		({ config, origins } = e);
+		problems.push(...e.problems);
+	}
+
+	if (config) {
+		problems.push(...lintConfig(config, { packages }));
+		if (loadedFile) {
+			problems.push(...lintShadowedConfig(config, loadedFile));
+		}
+	}
+	return {
+		problems: await Promise.all(
+			problems.map((problem) => locateProblem(problem, origins, file)),
+		),
+		files: new Set([file, ...origins.values()]),
+	};
+}
+
+/**
+ * Formats a problem as `file:line:column: severity: message (rule)`.
+ */
+function formatProblem(problem: LocatedProblem, c: ColorFn): string {
+	const position = [problem.file, problem.line, problem.column]
+		.filter((part) => part !== undefined)
+		.join(":");
+	const severity =
+		problem.severity === "error" ? c("red", "error") : c("yellow", "warning");
+	return `${position}: ${severity}: ${problem.message} ${c("dim", `(${problem.rule})`)}`;
+}
+
+/**
+ * Handles `ot validate`.
+ *
+ * Loads every discovered config (or only `--config`) and reports all
+ * problems at once. Files that discovery finds after the loaded config are
+ * checked too, and their workflows reported as unused.
+ *
+ * @param args - Arguments after `validate`
+ * @param configPath - Explicit `--config` path
+ * @param c - Colorizer
+ * @returns 1 if any errors were found, otherwise 0
+ */
+export async function handleValidate(
+	args: string[],
+	configPath: string | undefined,
+	c: ColorFn,
+): Promise<number> {
+	const { values } = parseArgs({
+		args,
+		strict: false,
+		options: {
+			format: { type: "string" },
+		},
+	});
+	const format = values.format ?? "text";
+	if (format !== "text" && format !== "json") {
+		console.error(c("red", `Error: Unknown format "${format}"`));
+		console.error(c("dim", "Available: text, json"));
+		return 1;
+	}
+
+	let files: string[];
+	let gitRoot: string;
+	try {
+		gitRoot = await GitUtil.getGitRoot();
+		files = await findConfigFiles(configPath, gitRoot);
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error(c("red", `Error: ${message}`));
+		return 1;
+	}
+	const packages = await discoverWorkspaces(gitRoot).catch(() => []);
+
+	const [loaded] = files;
+	const problems: LocatedProblem[] = [];
+	// Files the loaded config extends or includes are checked as part of it
+	const checked = new Set<string>();
+	for (const file of files) {
+		if (checked.has(file)) continue;
+		const result = await validateFile(
+			file,
+			gitRoot,
+			packages,
+			loaded && file !== loaded ? relative(process.cwd(), loaded) : undefined,
+		);
+		problems.push(...result.problems);
+		if (file === loaded) {
+			for (const used of result.files) checked.add(used);
+		}
+	}
+
+	// Stable sort: problems without a position keep their config order
+	problems.sort(
+		(a, b) =>
+			files.indexOf(resolve(a.file)) - files.indexOf(resolve(b.file)) ||
+			(a.line ?? 0) - (b.line ?? 0) ||
+			(a.column ?? 0) - (b.column ?? 0),
+	);
+	const errors = problems.filter((p) => p.severity === "error").length;
+	const warnings = problems.length - errors;
+
+	if (format === "json") {
+		console.log(
+			JSON.stringify(
+				{
+					configs: files.map((file) => relative(process.cwd(), file)),
+					problems,
+				},
+				null,
+				2,
+			),
+		);
+		return errors > 0 ? 1 : 0;
+	}
+
+	if (files.length === 0) {
+		console.error(c("red", "Error: No workflow config found"));
+		return 1;
+	}
+	for (const problem of problems) {
+		console.log(formatProblem(problem, c));
+	}
+	if (problems.length > 0) console.log();
+
+	const configs = `${files.length} config${files.length === 1 ? "" : "s"}`;
+	if (problems.length === 0) {
+		console.log(c("green", `✓ No problems found in ${configs}`));
+	} else {
+		const counts = [
+			`${errors} error${errors === 1 ? "" : "s"}`,
+			`${warnings} warning${warnings === 1 ? "" : "s"}`,
+		].join(", ");
+		console.log(c(errors > 0 ? "red" : "yellow", `✗ ${counts} in ${configs}`));
+	}
+	return errors > 0 ? 1 : 0;
+}
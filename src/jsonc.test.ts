@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { parseJsoncSource, tokenizeJsonc } from "./jsonc";
+
+describe("tokenizeJsonc", () => {
+	test("keeps comment markers inside strings", () => {
+		const text = '{ "cmd": "curl http://localhost /* x */" } // done';
+		const tokens = tokenizeJsonc(text);
+		expect(tokens.filter((t) => t.type === "comment")).toHaveLength(1);
+		expect(tokens.map((t) => text.slice(t.start, t.end)).join("")).toBe(text);
+	});
+
+	test("tracks lines and columns", () => {
+		const [, , key] = tokenizeJsonc('{\n  "a": 1\n}');
+		expect(key?.type).toBe("string");
+		expect(key?.location).toEqual({ line: 2, column: 3 });
+	});
+});
+
+describe("parseJsoncSource", () => {
+	test("parses comments and trailing commas", () => {
+		const { data } = parseJsoncSource(
+			[
+				"{",
+				"  // steps",
+				'  "build": [',
+				'    { "name": "a", "cmd": "echo \\"//\\"", "timeout": 1.5e3, },',
+				"    /* disabled */",
+				"  ],",
+				'  "flags": [true, false, null],',
+				"}",
+			].join("\n"),
+		);
+		expect(data).toEqual({
+			build: [{ name: "a", cmd: 'echo "//"', timeout: 1500 }],
+			flags: [true, false, null],
+		});
+	});
+
+	test("locates values and falls back to the closest ancestor", () => {
+		const { locate } = parseJsoncSource(
+			'{\n  "build": [\n    { "name": "a", "dependsOn": "b" }\n  ]\n}',
+		);
+		expect(locate(["build", 0, "dependsOn"])).toEqual({ line: 3, column: 33 });
+		expect(locate(["build", 0, "cmd"])).toEqual({ line: 3, column: 5 });
+	});
+
+	test("reports syntax errors with line and column", () => {
+		expect(() => parseJsoncSource('{\n  "a": 1\n  "b": 2\n}')).toThrow(
+			'line 3, column 3: Unexpected "b", expected "," or "}"',
+		);
+		expect(() => parseJsoncSource('{ "a": [1,, 2] }')).toThrow(
+			"line 1, column 11: Unexpected ,, expected a value",
+		);
+		expect(() => parseJsoncSource('{ "a": ')).toThrow(
+			"line 1, column 8: Unexpected end of input, expected a value",
+		);
+		expect(() => parseJsoncSource('{ "a": "b }')).toThrow(
+			"line 1, column 8: Unterminated string",
+		);
+		expect(() => parseJsoncSource("{ /* a }")).toThrow(
+			"line 1, column 3: Unterminated comment",
+		);
+		expect(() => parseJsoncSource("{} x")).toThrow(
+			'line 1, column 4: Unexpected character "x"',
+		);
+	});
+});
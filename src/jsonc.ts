@@ -0,0 +1,215 @@
+/**
+ * JSONC parsing.
+ *
+ * JSON with `//` and block comments and trailing commas in objects and
+ * arrays. Comment markers inside strings are left alone, and syntax errors
+ * report the line and column where they were found.
+ */
+
+import {
+	type ConfigSource,
+	ConfigSyntaxError,
+	type SourceLocation,
+} from "./config-source";
+
+/**
+ * A lexical token of a JSONC document.
+ */
+export type JsoncToken = {
+	readonly type:
+		| "punctuation"
+		| "string"
+		| "number"
+		| "literal"
+		| "comment"
+		| "whitespace";
+	/** Offset of the first character */
+	readonly start: number;
+	/** Offset after the last character */
+	readonly end: number;
+	readonly location: SourceLocation;
+};
+
+/**
+ * Sticky patterns for the tokens that are not delimited by a character.
+ */
+const TOKEN_PATTERNS: readonly (readonly [JsoncToken["type"], RegExp])[] = [
+	["whitespace", /[ \t\r\n]+/y],
+	["number", /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+	["literal", /true|false|null/y],
+];
+
+/**
+ * Splits JSONC text into tokens, including comments and whitespace.
+ *
+ * @param text - JSONC text
+ * @returns Tokens in source order; joining them yields `text`
+ * @throws ConfigSyntaxError for unterminated strings or comments and
+ * unexpected characters
+ */
+export function tokenizeJsonc(text: string): JsoncToken[] {
+	const tokens: JsoncToken[] = [];
+	let offset = 0;
+	let line = 1;
+	let lineStart = 0;
+
+	const locate = (at: number): SourceLocation => ({
+		line,
+		column: at - lineStart + 1,
+	});
+	const push = (type: JsoncToken["type"], end: number) => {
+		tokens.push({ type, start: offset, end, location: locate(offset) });
+		for (let i = offset; i < end; i++) {
+			if (text[i] === "\n") {
+				line++;
+				lineStart = i + 1;
+			}
+		}
+		offset = end;
+	};
+
+	while (offset < text.length) {
+		const char = text[offset] ?? "";
+
+		if ("{}[]:,".includes(char)) {
+			push("punctuation", offset + 1);
+		} else if (char === '"') {
+			let end = offset + 1;
+			while (end < text.length && text[end] !== '"' && text[end] !== "\n") {
+				end += text[end] === "\\" ? 2 : 1;
+			}
+			if (text[end] !== '"') {
+				throw new ConfigSyntaxError("Unterminated string", locate(offset));
+			}
+			push("string", end + 1);
+		} else if (text.startsWith("//", offset)) {
+			const newline = text.indexOf("\n", offset);
+			push("comment", newline === -1 ? text.length : newline);
+		} else if (text.startsWith("/*", offset)) {
+			const close = text.indexOf("*/", offset + 2);
+			if (close === -1) {
+				throw new ConfigSyntaxError("Unterminated comment", locate(offset));
+			}
+			push("comment", close + 2);
+		} else {
+			const match = TOKEN_PATTERNS.find(([, pattern]) => {
+				pattern.lastIndex = offset;
+				return pattern.test(text);
+			});
+			if (!match) {
+				throw new ConfigSyntaxError(
+					`Unexpected character ${JSON.stringify(char)}`,
+					locate(offset),
+				);
+			}
+			push(match[0], match[1].lastIndex);
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Parses JSONC text.
+ *
+ * @param text - JSONC text
+ * @returns Parsed data and a locator pointing at the value of each path
+ * @throws ConfigSyntaxError for the first syntax error
+ */
+export function parseJsoncSource(text: string): ConfigSource {
+	const tokens = tokenizeJsonc(text).filter(
+		(token) => token.type !== "comment" && token.type !== "whitespace",
+	);
+	const locations = new Map<string, SourceLocation>();
+	let index = 0;
+
+	const sourceOf = (token: JsoncToken) => text.slice(token.start, token.end);
+	const endLocation = (): SourceLocation => {
+		const lines = text.split("\n");
+		return {
+			line: lines.length,
+			column: (lines[lines.length - 1]?.length ?? 0) + 1,
+		};
+	};
+	const fail = (expected: string, token = tokens[index]): never => {
+		if (!token) {
+			throw new ConfigSyntaxError(
+				`Unexpected end of input, expected ${expected}`,
+				endLocation(),
+			);
+		}
+		throw new ConfigSyntaxError(
+			`Unexpected ${sourceOf(token)}, expected ${expected}`,
+			token.location,
+		);
+	};
+	const isPunctuation = (token: JsoncToken | undefined, char: string) =>
+		token?.type === "punctuation" && sourceOf(token) === char;
+
+	const parseString = (token: JsoncToken): string => {
+		try {
+			return JSON.parse(sourceOf(token)) as string;
+		} catch {
+			throw new ConfigSyntaxError("Invalid string", token.location);
+		}
+	};
+
+	const parseValue = (path: readonly (string | number)[]): unknown => {
+		const token = tokens[index];
+		if (!token) return fail("a value");
+		locations.set(JSON.stringify(path), token.location);
+		index++;
+
+		switch (token.type) {
+			case "string":
+				return parseString(token);
+			case "number":
+			case "literal":
+				return JSON.parse(sourceOf(token));
+		}
+
+		if (sourceOf(token) === "[") {
+			const items: unknown[] = [];
+			while (!isPunctuation(tokens[index], "]")) {
+				items.push(parseValue([...path, items.length]));
+				if (isPunctuation(tokens[index], ",")) index++;
+				else if (!isPunctuation(tokens[index], "]")) fail('"," or "]"');
+			}
+			index++;
+			return items;
+		}
+
+		if (sourceOf(token) === "{") {
+			const entries: [string, unknown][] = [];
+			while (!isPunctuation(tokens[index], "}")) {
+				const key = tokens[index];
+				if (key?.type !== "string") return fail("a property name or }");
+				index++;
+				if (!isPunctuation(tokens[index], ":")) fail('":"');
+				index++;
+				const name = parseString(key);
+				entries.push([name, parseValue([...path, name])]);
+				if (isPunctuation(tokens[index], ",")) index++;
+				else if (!isPunctuation(tokens[index], "}")) fail('"," or "}"');
+			}
+			index++;
+			// Like JSON.parse, later duplicate keys win and `__proto__` is a key
+			return Object.fromEntries(entries);
+		}
+
+		return fail("a value", token);
+	};
+
+	const data = parseValue([]);
+	if (index < tokens.length) fail("end of input");
+
+	return {
+		data,
+		locate: (path) => {
+			for (let length = path.length; length >= 0; length--) {
+				const location = locations.get(JSON.stringify(path.slice(0, length)));
+				if (location) return location;
+			}
+			return undefined;
+		},
+	};
+}
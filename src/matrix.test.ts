@@ -0,0 +1,99 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${{ matrix.* }} placeholders
+import { describe, expect, test } from "bun:test";
+import {
+	expandMatrix,
+	expandMatrixSteps,
+	formatMatrixName,
+	interpolateMatrix,
+} from "./matrix";
+
+describe("expandMatrix", () => {
+	test("builds the cartesian product in declaration order", () => {
+		expect(expandMatrix({ shard: [1, 2], tz: ["UTC", "Asia/Tokyo"] })).toEqual([
+			{ shard: 1, tz: "UTC" },
+			{ shard: 1, tz: "Asia/Tokyo" },
+			{ shard: 2, tz: "UTC" },
+			{ shard: 2, tz: "Asia/Tokyo" },
+		]);
+	});
+
+	test("applies exclude before include", () => {
+		expect(
+			expandMatrix({
+				shard: [1, 2],
+				tz: ["UTC", "Asia/Tokyo"],
+				exclude: [{ tz: "Asia/Tokyo" }],
+				include: [
+					{ shard: 1, tz: "UTC" },
+					{ shard: 3, tz: "Asia/Tokyo" },
+				],
+			}),
+		).toEqual([
+			{ shard: 1, tz: "UTC" },
+			{ shard: 2, tz: "UTC" },
+			{ shard: 3, tz: "Asia/Tokyo" },
+		]);
+	});
+
+	test("returns only include entries without axes", () => {
+		expect(expandMatrix({ include: [{ os: "linux" }] })).toEqual([
+			{ os: "linux" },
+		]);
+		expect(expandMatrix({})).toEqual([]);
+	});
+});
+
+describe("interpolateMatrix", () => {
+	test("replaces placeholders", () => {
+		expect(
+			interpolateMatrix("test --shard=${{ matrix.shard }}/${{matrix.total}}", {
+				shard: 1,
+				total: 4,
+			}),
+		).toBe("test --shard=1/4");
+	});
+
+	test("throws on unknown keys", () => {
+		expect(() => interpolateMatrix("${{ matrix.os }}", { shard: 1 })).toThrow(
+			'Unknown matrix key "os"',
+		);
+	});
+});
+
+describe("expandMatrixSteps", () => {
+	test("names children after their combination", () => {
+		expect(formatMatrixName("test", { shard: 1, tz: "UTC" })).toBe(
+			"test[shard=1,tz=UTC]",
+		);
+	});
+
+	test("interpolates cwd and env and drops the matrix", () => {
+		const [child] = expandMatrixSteps([
+			{
+				name: "test",
+				cmd: "bun test",
+				cwd: "apps/${{ matrix.app }}",
+				env: { TZ: "${{ matrix.tz }}" },
+				matrix: { app: ["api"], tz: ["UTC"] },
+			},
+		]);
+		expect(child).toMatchObject({
+			name: "test[app=api,tz=UTC]",
+			cwd: "apps/api",
+			env: { TZ: "UTC" },
+		});
+		expect(child?.matrix).toBeUndefined();
+	});
+
+	test("rejects empty matrices and name clashes", () => {
+		expect(() =>
+			expandMatrixSteps([{ name: "test", matrix: { shard: [] } }]),
+		).toThrow('Step "test": matrix has no combinations');
+		expect(() =>
+			expandMatrixSteps([
+				{ name: "test", matrix: { shard: [1] } },
+				{ name: "test[shard=1]" },
+			]),
+		).toThrow('Duplicate step name "test[shard=1]"');
+	});
+});
@@ -0,0 +1,201 @@
+/**
+ * Matrix step expansion.
+ *
+ * A step with a `matrix` fans out into one virtual step per parameter
+ * combination, named like `test[shard=1,tz=UTC]`. Steps that depend on the
+ * parent depend on all of its children instead.
+ */
+
+import type { Matrix, MatrixValue, Step } from "./types";
+
+/**
+ * One combination of matrix axis values.
+ */
+export type MatrixCombination = Readonly<Record<string, MatrixValue>>;
+
+/**
+ * Checks whether a combination has every key/value of an entry.
+ */
+function matchesEntry(
+	combination: MatrixCombination,
+	entry: MatrixCombination,
+): boolean {
+	return Object.entries(entry).every(
+		([key, value]) => combination[key] === value,
+	);
+}
+
+/**
+ * Expands a matrix into its parameter combinations.
+ *
+ * Axes are combined as a cartesian product in declaration order. `exclude`
+ * removes combinations matching every key of an entry; `include` then adds
+ * combinations that are not already present.
+ *
+ * @param matrix - Matrix definition
+ * @returns Combinations in expansion order
+ *
+ * @example
+ * ```ts
+ * expandMatrix({ shard: [1, 2], tz: ["UTC"], include: [{ shard: 3, tz: "Asia/Tokyo" }] });
+ * // [{ shard: 1, tz: "UTC" }, { shard: 2, tz: "UTC" }, { shard: 3, tz: "Asia/Tokyo" }]
+ * ```
+ */
+export function expandMatrix(matrix: Matrix): MatrixCombination[] {
+	const { include = [], exclude = [], ...axes } = matrix;
+	const entries = Object.entries(axes);
+
+	let combinations: MatrixCombination[] = entries.length > 0 ? [{}] : [];
+	for (const [key, values = []] of entries) {
+		// Only `include` and `exclude` hold objects; every other key is an axis
+		combinations = combinations.flatMap((combination) =>
+			(values as MatrixValue[]).map((value) => ({
+				...combination,
+				[key]: value,
+			})),
+		);
+	}
+
+	combinations = combinations.filter(
+		(combination) => !exclude.some((entry) => matchesEntry(combination, entry)),
+	);
+
+	for (const entry of include) {
+		const exists = combinations.some(
+			(combination) =>
+				Object.keys(combination).length === Object.keys(entry).length &&
+				matchesEntry(combination, entry),
+		);
+		if (!exists) combinations.push(entry);
+	}
+
+	return combinations;
+}
+
+/**
+ * Formats the name of a matrix child step.
+ *
+ * @param name - Parent step name
+ * @param combination - Matrix combination
+ * @returns Name like `test[shard=1,tz=UTC]`
+ */
+export function formatMatrixName(
+	name: string,
+	combination: MatrixCombination,
+): string {
+	const params = Object.entries(combination)
+		.map(([key, value]) => `${key}=${value}`)
+		.join(",");
+	return `${name}[${params}]`;
+}
+
+/**
+ * Replaces `${{ matrix.<key> }}` placeholders with combination values.
+ *
+ * @param text - Text containing placeholders
+ * @param combination - Matrix combination
+ * @returns Interpolated text
+ * @throws Error if a placeholder names a key the combination does not have
+ */
+export function interpolateMatrix(
+	text: string,
+	combination: MatrixCombination,
+): string {
+	return text.replace(/\$\{\{\s*matrix\.([\w-]+)\s*\}\}/g, (_, key: string) => {
+		const value = combination[key];
+		if (value === undefined) {
+			throw new Error(`Unknown matrix key "${key}"`);
+		}
+		return String(value);
+	});
+}
+
+/**
+ * Lists the child step names of every matrix step.
+ *
+ * @param steps - Workflow steps
+ * @returns Child names by parent step name
+ * @throws Error if a matrix has no combinations
+ */
+export function getMatrixChildren(
+	steps: readonly Step[],
+): Map<string, string[]> {
+	const children = new Map<string, string[]>();
+	for (const step of steps) {
+		if (!step.matrix) continue;
+		const combinations = expandMatrix(step.matrix);
+		if (combinations.length === 0) {
+			throw new Error(`Step "${step.name}": matrix has no combinations`);
+		}
+		children.set(
+			step.name,
+			combinations.map((combination) =>
+				formatMatrixName(step.name, combination),
+			),
+		);
+	}
+	return children;
+}
+
+/**
+ * Replaces matrix steps with one child step per combination.
+ *
+ * Children inherit every field of the parent except `matrix`, with
+ * placeholders interpolated into `cmd`, `cwd` and `env` values.
+ * Dependencies on a matrix step are rewritten to all of its children.
+ *
+ * @param steps - Workflow steps
+ * @returns Expanded steps in declaration order
+ * @throws Error for empty matrices, unknown placeholders or name clashes
+ */
+export function expandMatrixSteps(steps: readonly Step[]): Step[] {
+	const children = getMatrixChildren(steps);
+	if (children.size === 0) return [...steps];
+
+	const expanded = steps.flatMap((step): Step[] => {
+		const dependsOn = step.dependsOn?.flatMap(
+			(dep) => children.get(dep) ?? [dep],
+		);
+		if (!step.matrix) return [{ ...step, dependsOn }];
+
+		const { matrix, ...rest } = step;
+		return expandMatrix(matrix).map((combination) => {
+			try {
+				return {
+					...rest,
+					name: formatMatrixName(step.name, combination),
+					dependsOn,
+					cmd:
+						rest.cmd === undefined
+							? undefined
+							: interpolateMatrix(rest.cmd, combination),
+					cwd:
+						rest.cwd === undefined
+							? undefined
+							: interpolateMatrix(rest.cwd, combination),
+					env:
+						rest.env === undefined
+							? undefined
+							: Object.fromEntries(
+									Object.entries(rest.env).map(([key, value]) => [
+										key,
+										interpolateMatrix(value, combination),
+									]),
+								),
+				};
+			} catch (e) {
+				const message = e instanceof Error ? e.message : String(e);
+				throw new Error(`Step "${step.name}": ${message}`);
+			}
+		});
+	});
+
+	const seen = new Set<string>();
+	for (const step of expanded) {
+		if (seen.has(step.name)) {
+			throw new Error(`Duplicate step name "${step.name}"`);
+		}
+		seen.add(step.name);
+	}
+	return expanded;
+}
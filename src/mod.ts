@@ -2,14 +2,35 @@
  * Re-exports all runner utilities.
  */
 
+// Zod, so plugins define action schemas with the runner's instance
+export { z } from "zod";
 export * from "./actions/mod";
+export * from "./affected";
 export * from "./branch";
+export * from "./cache/index";
 export * from "./colors";
+export * from "./condition";
 export * from "./config";
+export * from "./config-compose";
+export * from "./config-source";
+export * from "./config-template";
+export * from "./env";
+export * from "./expression";
+export * from "./filter";
 export * from "./formatting";
 export * from "./git-util";
 export * from "./graph";
 export * from "./handlers/mod";
+export * from "./jsonc";
+export * from "./matrix";
 export * from "./npm-workspace";
+export * from "./params";
+export * from "./plugins";
+export * from "./process";
 export * from "./progress-printer";
+export * from "./retry";
+export * from "./scheduler";
+export * from "./step-outputs";
+export * from "./subworkflow";
 export * from "./types";
+export * from "./validate";
@@ -148,6 +148,30 @@ export function buildDependencyGraph(
 	return graph;
 }
 
+/**
+ * Builds the reverse dependency graph.
+ * Returns adjacency list where edges point from package to its dependents.
+ *
+ * @param packages - Array of workspace packages
+ * @returns Map of package name to names of packages that depend on it
+ */
+export function buildDependentsGraph(
+	packages: readonly WorkspacePackage[],
+): Map<string, readonly string[]> {
+	const graph = new Map<string, string[]>();
+
+	for (const pkg of packages) {
+		if (!graph.has(pkg.name)) graph.set(pkg.name, []);
+		for (const dep of pkg.workspaceDeps) {
+			const dependents = graph.get(dep) ?? [];
+			dependents.push(pkg.name);
+			graph.set(dep, dependents);
+		}
+	}
+
+	return graph;
+}
+
 /**
  * Resolves task dependencies using turborepo semantics:
  * - `^task`: Run task in all dependency packages first
@@ -214,6 +238,29 @@ export function resolveTaskDependencies(
 	return nodes;
 }
 
+/**
+ * Restricts task nodes to a set of selected packages.
+ * Dependencies on tasks outside the selection are dropped, so unselected
+ * packages are treated as already up to date.
+ *
+ * @param nodes - Resolved task nodes
+ * @param selection - Package names to keep, or undefined to keep all
+ * @returns Task nodes for selected packages
+ */
+export function selectTaskNodes(
+	nodes: readonly TaskNode[],
+	selection: ReadonlySet<string> | undefined,
+): readonly TaskNode[] {
+	if (!selection) return nodes;
+
+	const selected = nodes.filter((n) => selection.has(n.packageName));
+	const ids = new Set(selected.map((n) => `${n.packageName}#${n.script}`));
+	return selected.map((n) => ({
+		...n,
+		dependencies: n.dependencies.filter((d) => ids.has(d)),
+	}));
+}
+
 /**
  * Topologically sorts task nodes respecting dependencies.
  * Groups nodes that can run in parallel.
@@ -0,0 +1,121 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${{ params.* }} placeholders
+import { describe, expect, test } from "bun:test";
+import {
+	applyParams,
+	interpolateParams,
+	parseParamArgs,
+	resolveParams,
+} from "./params";
+import type { Param } from "./types";
+
+const params: Record<string, Param> = {
+	env: { type: "enum", values: ["staging", "production"], required: true },
+	replicas: { type: "number", default: 2 },
+	dryRun: { type: "boolean", default: false },
+	tag: { type: "string" },
+};
+
+describe("parseParamArgs", () => {
+	test("splits on the first =", () => {
+		expect(
+			parseParamArgs(["env=staging", "query=a=b", "env=production"]),
+		).toEqual({ env: "production", query: "a=b" });
+	});
+
+	test("rejects arguments without a key", () => {
+		expect(() => parseParamArgs(["staging"])).toThrow(
+			'Invalid --param "staging": expected key=value',
+		);
+		expect(() => parseParamArgs(["=x"])).toThrow("expected key=value");
+	});
+});
+
+describe("resolveParams", () => {
+	test("converts values and applies defaults", () => {
+		expect(resolveParams(params, { env: "staging", dryRun: "true" })).toEqual({
+			env: "staging",
+			replicas: 2,
+			dryRun: true,
+			tag: undefined,
+		});
+		expect(
+			resolveParams(params, { env: "production", replicas: "4" }).replicas,
+		).toBe(4);
+	});
+
+	test("reports missing, invalid and unknown params", () => {
+		expect(() => resolveParams(params, {})).toThrow(
+			'At "env": Missing required param',
+		);
+		expect(() =>
+			resolveParams(params, { env: "dev", dryRun: "yes", extra: "1" }),
+		).toThrow(/At "env".*\n.*At "dryRun".*\n.*Unrecognized key: "extra"/);
+	});
+
+	test("accepts no params for workflows without a params block", () => {
+		expect(resolveParams(undefined, {})).toEqual({});
+	});
+});
+
+describe("interpolateParams", () => {
+	test("replaces params and quoted args", () => {
+		expect(
+			interpolateParams(
+				"deploy ${{ params.env }} ${{params.tag}} ${{ args }}",
+				{ env: "staging", tag: undefined },
+				["--force", "it's here"],
+			),
+		).toBe(`deploy staging  --force 'it'"'"'s here'`);
+	});
+
+	test("leaves other placeholders alone", () => {
+		expect(interpolateParams("${{ matrix.shard }}", {}, [])).toBe(
+			"${{ matrix.shard }}",
+		);
+	});
+
+	test("throws on undeclared params", () => {
+		expect(() => interpolateParams("${{ params.nope }}", {}, [])).toThrow(
+			'Unknown param "nope"',
+		);
+	});
+});
+
+describe("applyParams", () => {
+	test("interpolates cmd, bun.script and worktree:cp.files", () => {
+		const [cmd, bun, copy] = applyParams(
+			[
+				{ name: "cmd", cmd: "echo ${{ params.env }}" },
+				{ name: "bun", bun: { script: "deploy:${{ params.env }}" } },
+				{
+					name: "copy",
+					"worktree:cp": { from: "main", files: [".env.${{ params.env }}"] },
+				},
+			],
+			{ env: "staging" },
+			[],
+		);
+		expect(cmd?.cmd).toBe("echo staging");
+		expect(bun?.bun?.script).toBe("deploy:staging");
+		expect(copy?.["worktree:cp"]?.files).toEqual([".env.staging"]);
+	});
+
+	test("names the step in errors", () => {
+		expect(() =>
+			applyParams([{ name: "a", cmd: "${{ params.x }}" }], {}, []),
+		).toThrow('Step "a": Unknown param "x"');
+	});
+
+	test("shell-quotes param values in cmd only", () => {
+		const [cmd, bun] = applyParams(
+			[
+				{ name: "cmd", cmd: "echo ${{ params.msg }} ${{ params.tag }}" },
+				{ name: "bun", bun: { script: "say:${{ params.msg }}" } },
+			],
+			{ msg: "hi; rm -rf /", tag: undefined },
+			[],
+		);
+		expect(cmd?.cmd).toBe("echo 'hi; rm -rf /' ");
+		expect(bun?.bun?.script).toBe("say:hi; rm -rf /");
+	});
+});
@@ -0,0 +1,193 @@
+/**
+ * Workflow parameters.
+ *
+ * Values passed with `--param key=value` are validated against the
+ * workflow's `params` block. `${{ params.<name> }}` and `${{ args }}` (the
+ * arguments after `--`) are replaced in `cmd`, `bun.script` and
+ * `worktree:cp.files`.
+ */
+
+import { z } from "zod";
+import { getSteps, getWorkflowParams } from "./config";
+import { formatZodError, quoteShellArg } from "./formatting";
+import type { Param, Step, Workflow } from "./types";
+
+/**
+ * Validated parameter values by name; optional params without a default
+ * are undefined.
+ */
+export type ParamValues = Readonly<
+	Record<string, string | number | boolean | undefined>
+>;
+
+/**
+ * Parses `--param key=value` arguments; later values win.
+ *
+ * @param args - Raw `--param` values
+ * @returns Raw values by name
+ * @throws Error if an argument is not `key=value`
+ */
+export function parseParamArgs(
+	args: readonly string[],
+): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const arg of args) {
+		const index = arg.indexOf("=");
+		if (index <= 0) {
+			throw new Error(`Invalid --param "${arg}": expected key=value`);
+		}
+		values[arg.slice(0, index)] = arg.slice(index + 1);
+	}
+	return values;
+}
+
+/**
+ * Reports a missing required param instead of a type mismatch.
+ */
+const missingParamError = {
+	error: (issue: { readonly input?: unknown }) =>
+		issue.input === undefined ? "Missing required param" : undefined,
+};
+
+/**
+ * Builds the schema that converts a raw CLI value to the param's type.
+ */
+function getParamValueSchema(param: Param): z.ZodType {
+	switch (param.type) {
+		case "string":
+			return z.string(missingParamError);
+		case "number":
+			return z.coerce.number(missingParamError);
+		case "boolean":
+			return z
+				.enum(["true", "false"], missingParamError)
+				.transform((v) => v === "true");
+		case "enum":
+			return z.enum(param.values, missingParamError);
+	}
+}
+
+/**
+ * Validates raw parameter values and applies defaults.
+ *
+ * @param params - The workflow's `params` block
+ * @param raw - Raw values from `--param`
+ * @returns Typed values for every declared param
+ * @throws Error listing unknown, missing or invalid params
+ */
+export function resolveParams(
+	params: Readonly<Record<string, Param>> | undefined,
+	raw: Readonly<Record<string, string>>,
+): ParamValues {
+	const shape: Record<string, z.ZodType> = {};
+	for (const [name, param] of Object.entries(params ?? {})) {
+		const schema = getParamValueSchema(param);
+		shape[name] =
+			param.default !== undefined
+				? schema.optional().default(param.default)
+				: param.required
+					? schema
+					: schema.optional();
+	}
+
+	const result = z.strictObject(shape).safeParse(raw);
+	if (!result.success) {
+		throw new Error(formatZodError(result.error, "Invalid params"));
+	}
+	// Keep unset optional params so placeholders for them resolve to ""
+	return Object.fromEntries(
+		Object.keys(shape).map((name) => [
+			name,
+			(result.data as ParamValues)[name],
+		]),
+	);
+}
+
+/**
+ * Replaces `${{ params.<name> }}` and `${{ args }}` placeholders.
+ *
+ * @param text - Text containing placeholders
+ * @param values - Validated param values
+ * @param args - Extra arguments, shell-quoted and space-separated
+ * @param quote - Shell-quote param values too, for commands
+ * @returns Interpolated text
+ * @throws Error if a placeholder names an undeclared param
+ */
+export function interpolateParams(
+	text: string,
+	values: ParamValues,
+	args: readonly string[],
+	quote = false,
+): string {
+	return text.replace(
+		/\$\{\{\s*(?:params\.([\w-]+)|args)\s*\}\}/g,
+		(_, name: string | undefined) => {
+			if (name === undefined) return args.map(quoteShellArg).join(" ");
+			if (!Object.hasOwn(values, name)) {
+				throw new Error(`Unknown param "${name}"`);
+			}
+			const value = values[name];
+			if (value === undefined) return "";
+			return quote ? quoteShellArg(String(value)) : String(value);
+		},
+	);
+}
+
+/**
+ * Interpolates params and extra arguments into steps.
+ *
+ * @param steps - Workflow steps
+ * @param values - Validated param values
+ * @param args - Extra arguments from after `--`
+ * @returns Steps with `cmd`, `bun.script` and `worktree:cp.files`
+ * interpolated; param values in `cmd` are shell-quoted
+ * @throws Error if a step uses an undeclared param
+ */
+export function applyParams(
+	steps: readonly Step[],
+	values: ParamValues,
+	args: readonly string[],
+): Step[] {
+	const interpolate = (text: string) => interpolateParams(text, values, args);
+	return steps.map((step) => {
+		try {
+			const copy = step["worktree:cp"];
+			return {
+				...step,
+				cmd:
+					step.cmd === undefined
+						? undefined
+						: interpolateParams(step.cmd, values, args, true),
+				bun:
+					step.bun === undefined
+						? undefined
+						: { ...step.bun, script: interpolate(step.bun.script) },
+				"worktree:cp":
+					copy === undefined
+						? undefined
+						: { ...copy, files: copy.files.map(interpolate) },
+			};
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			throw new Error(`Step "${step.name}": ${message}`);
+		}
+	});
+}
+
+/**
+ * Resolves a workflow's steps for the given CLI params and extra arguments.
+ *
+ * @param workflow - Workflow definition
+ * @param raw - Raw values from `--param`
+ * @param args - Extra arguments from after `--`
+ * @returns Interpolated steps and the validated values
+ * @throws Error for invalid params or undeclared placeholders
+ */
+export function resolveWorkflowSteps(
+	workflow: Workflow,
+	raw: Readonly<Record<string, string>>,
+	args: readonly string[],
+): { readonly steps: Step[]; readonly params: ParamValues } {
+	const params = resolveParams(getWorkflowParams(workflow), raw);
+	return { steps: applyParams(getSteps(workflow), params, args), params };
+}
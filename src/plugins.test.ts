@@ -0,0 +1,118 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type ActionContext,
+	getAction,
+	getStepAction,
+} from "./actions/registry";
+import { getSteps, loadConfig } from "./config";
+import { loadPlugins } from "./plugins";
+
+const root = mkdtempSync(join(tmpdir(), "ot-plugins-"));
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+/**
+ * Writes a plugin module defining actions with the given keys.
+ */
+function writePlugin(file: string, keys: readonly string[]): string {
+	const path = join(root, file);
+	mkdirSync(join(path, ".."), { recursive: true });
+	const actions = keys.map(
+		(key) => `defineAction({
+	key: ${JSON.stringify(key)},
+	schema: z.object({ port: z.number() }),
+	run: async ({ options }) => ({ success: true, output: \`port \${options.port}\` }),
+})`,
+	);
+	writeFileSync(
+		path,
+		[
+			`import { defineAction, z } from ${JSON.stringify(join(import.meta.dir, "mod"))};`,
+			`export default [${actions.join(", ")}];`,
+		].join("\n"),
+	);
+	return path;
+}
+
+describe("loadPlugins", () => {
+	test("registers the actions a plugin exports", async () => {
+		writePlugin("plugins/wait.ts", ["test:wait", "test:wait-all"]);
+		const from = join(root, "workflow.json");
+		const loaded = await loadPlugins(["./plugins/wait.ts"], from);
+		expect(loaded.map((action) => action.key)).toEqual([
+			"test:wait",
+			"test:wait-all",
+		]);
+		expect(getAction("test:wait")).toBe(loaded[0]);
+
+		// Loading the same module again is a no-op
+		await loadPlugins(["./plugins/wait.ts"], from);
+	});
+
+	test("reports unresolvable plugins and invalid exports", async () => {
+		const from = join(root, "workflow.json");
+		expect(loadPlugins(["./missing.ts"], from)).rejects.toThrow(
+			`Cannot resolve plugin "./missing.ts" from ${from}`,
+		);
+
+		writeFileSync(join(root, "empty.ts"), "export const x = 1;");
+		expect(loadPlugins(["./empty.ts"], from)).rejects.toThrow(
+			'Plugin "./empty.ts" must default-export defineAction(...) or an array of them',
+		);
+
+		writePlugin("taken.ts", ["bun"]);
+		expect(loadPlugins(["./taken.ts"], from)).rejects.toThrow(
+			'Plugin "./taken.ts": Action "bun" is already registered',
+		);
+	});
+});
+
+describe("config plugins", () => {
+	test("validates plugin actions and runs them", async () => {
+		writePlugin("ot-plugins/db.ts", ["test:db"]);
+		const path = join(root, "db.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				plugins: ["./ot-plugins/db.ts"],
+				workflows: {
+					ci: [
+						{ name: "db", "test:db": { port: 5432 } },
+						{ name: "db2", uses: "test:db", with: { port: 5433 } },
+					],
+				},
+			}),
+		);
+
+		const config = await loadConfig(path, root);
+		const steps = getSteps(config.workflows.ci ?? []);
+		expect(steps as unknown[]).toEqual([
+			{ name: "db", "test:db": { port: 5432 } },
+			{ name: "db2", "test:db": { port: 5433 } },
+		]);
+
+		const action = steps[0] && getStepAction(steps[0]);
+		expect(action?.definition.key).toBe("test:db");
+		const result = await action?.definition.run({
+			options: action.options,
+		} as ActionContext);
+		expect(result).toMatchObject({ success: true, output: "port 5432" });
+	});
+
+	test("reports invalid plugin options", async () => {
+		writePlugin("ot-plugins/port.ts", ["test:port"]);
+		const path = join(root, "port.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				plugins: ["./ot-plugins/port.ts"],
+				workflows: { ci: [{ name: "p", "test:port": { port: "x" } }] },
+			}),
+		);
+		expect(loadConfig(path, root)).rejects.toThrow(
+			'At "workflows.ci.0.test:port.port" (line 1, column 88): Invalid input: expected number, received string',
+		);
+	});
+});
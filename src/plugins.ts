@@ -0,0 +1,78 @@
+/**
+ * Config plugins.
+ *
+ * A config's `plugins` lists modules whose default export is an action made
+ * with `defineAction`, or an array of them. Plugins are loaded when the
+ * config that lists them is read, before its steps are validated, so their
+ * action keys are accepted like the built-in ones.
+ */
+
+import { dirname } from "node:path";
+import { type ActionDefinition, registerAction } from "./actions/registry";
+
+/**
+ * Checks whether a value looks like an action definition.
+ */
+function isActionDefinition(value: unknown): value is ActionDefinition {
+	if (typeof value !== "object" || value === null) return false;
+	const { key, schema, run } = value as Partial<Record<string, unknown>>;
+	return (
+		typeof key === "string" &&
+		typeof run === "function" &&
+		typeof (schema as { safeParse?: unknown } | undefined)?.safeParse ===
+			"function"
+	);
+}
+
+/**
+ * Resolves a plugin module.
+ *
+ * @param specifier - Path relative to the config, or a package name
+ * @param from - Path of the config that lists the plugin
+ * @returns Absolute path of the module
+ * @throws Error if the module cannot be resolved
+ */
+export function resolvePlugin(specifier: string, from: string): string {
+	try {
+		return Bun.resolveSync(specifier, dirname(from));
+	} catch {
+		throw new Error(`Cannot resolve plugin "${specifier}" from ${from}`);
+	}
+}
+
+/**
+ * Imports plugins and registers their actions.
+ *
+ * @param specifiers - Plugins as listed in the config
+ * @param from - Path of the config that lists them
+ * @returns The registered actions, in plugin order
+ * @throws Error naming the plugin if it cannot be loaded, exports no
+ * actions, or defines an action key that is taken
+ */
+export async function loadPlugins(
+	specifiers: readonly string[],
+	from: string,
+): Promise<ActionDefinition[]> {
+	const loaded: ActionDefinition[] = [];
+	for (const specifier of specifiers) {
+		const mod = (await import(resolvePlugin(specifier, from))) as {
+			default?: unknown;
+		};
+		const actions = Array.isArray(mod.default) ? mod.default : [mod.default];
+		if (actions.length === 0 || !actions.every(isActionDefinition)) {
+			throw new Error(
+				`Plugin "${specifier}" must default-export defineAction(...) or an array of them`,
+			);
+		}
+		for (const action of actions) {
+			try {
+				registerAction(action);
+			} catch (e) {
+				const message = e instanceof Error ? e.message : String(e);
+				throw new Error(`Plugin "${specifier}": ${message}`);
+			}
+		}
+		loaded.push(...actions);
+	}
+	return loaded;
+}
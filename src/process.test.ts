@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runProcess } from "./process";
+
+// Killed orphans may linger as zombies until reaped, so check the state too
+const isAlive = (pid: number): boolean => {
+	try {
+		process.kill(pid, 0);
+	} catch {
+		return false;
+	}
+	try {
+		return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf-8"));
+	} catch {
+		return true;
+	}
+};
+
+describe("runProcess", () => {
+	test("captures output and exit code", async () => {
+		const result = await runProcess([
+			"sh",
+			"-c",
+			"echo out; echo err >&2; exit 3",
+		]);
+		expect(result.exitCode).toBe(3);
+		expect(result.output).toContain("out");
+		expect(result.output).toContain("err");
+		expect(result.timedOut).toBe(false);
+	});
+
+	test("kills the whole process tree on timeout", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "ot-process-"));
+		try {
+			const pidFile = join(dir, "pid");
+			const result = await runProcess(
+				["sh", "-c", `sleep 30 & echo $! > ${pidFile}; wait`],
+				{ timeout: 200 },
+			);
+			expect(result.timedOut).toBe(true);
+			expect(result.exitCode).toBeNull();
+
+			const grandchild = Number(readFileSync(pidFile, "utf-8").trim());
+			expect(isAlive(grandchild)).toBe(false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("sends SIGKILL when SIGTERM is ignored", async () => {
+		const start = performance.now();
+		const result = await runProcess(["sh", "-c", "trap '' TERM; sleep 30"], {
+			timeout: 100,
+			killGracePeriod: 100,
+		});
+		expect(result.timedOut).toBe(true);
+		expect(performance.now() - start).toBeLessThan(5000);
+	});
+
+	test("terminates the process tree when aborted", async () => {
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 100);
+		const result = await runProcess(["sh", "-c", "sleep 30"], {
+			signal: controller.signal,
+		});
+		expect(result.cancelled).toBe(true);
+		expect(result.timedOut).toBe(false);
+	});
+
+	test("does not start when already aborted", async () => {
+		const result = await runProcess(["sh", "-c", "exit 0"], {
+			signal: AbortSignal.abort(),
+		});
+		expect(result.cancelled).toBe(true);
+		expect(result.exitCode).toBeNull();
+	});
+});
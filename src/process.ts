@@ -0,0 +1,164 @@
+/**
+ * Child process execution with timeouts, cancellation and process-tree
+ * termination.
+ */
+
+/**
+ * Grace period between SIGTERM and SIGKILL when terminating a process tree.
+ */
+export const KILL_GRACE_MS = 5000;
+
+/**
+ * Builds a Bun CLI command line that runs through the current executable,
+ * so steps do not need `bun` on PATH.
+ *
+ * @param args - Bun CLI arguments (e.g. `["run", "build"]`)
+ */
+export function bunCommand(args: readonly string[]): string[] {
+	return [process.execPath, ...args];
+}
+
+/**
+ * Environment for {@link bunCommand}: a compiled `ot` binary only acts as
+ * the Bun CLI with `BUN_BE_BUN=1`.
+ */
+export const BUN_COMMAND_ENV: Readonly<Record<string, string>> =
+	/^(\/\$bunfs\/|[A-Z]:[\\/]~BUN[\\/])/.test(Bun.main)
+		? { BUN_BE_BUN: "1" }
+		: {};
+
+/**
+ * Options for running a child process.
+ */
+export type RunProcessOptions = {
+	readonly cwd?: string;
+	/** Variables added to the inherited process environment */
+	readonly env?: Readonly<Record<string, string>>;
+	/** Timeout in milliseconds (default: no timeout) */
+	readonly timeout?: number;
+	/** Delay between SIGTERM and SIGKILL (default: KILL_GRACE_MS) */
+	readonly killGracePeriod?: number;
+	/** Terminates the process tree when aborted */
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Result of a child process run.
+ */
+export type ProcessResult = {
+	readonly exitCode: number | null;
+	/** Combined stdout and stderr */
+	readonly output: string;
+	readonly timedOut: boolean;
+	/** True when the run was stopped through the abort signal */
+	readonly cancelled: boolean;
+};
+
+/**
+ * Process groups of running children, for force-killing on exit.
+ */
+const liveGroups = new Set<number>();
+
+/**
+ * Sends a signal to a process group, ignoring groups that already exited.
+ * Windows has neither process groups nor signals, so the process tree is
+ * ended with `taskkill` instead.
+ */
+function killGroup(pid: number, signal: NodeJS.Signals): void {
+	try {
+		if (process.platform === "win32") {
+			Bun.spawnSync(["taskkill", "/T", "/F", "/PID", String(pid)], {
+				stdout: "ignore",
+				stderr: "ignore",
+			});
+		} else {
+			process.kill(-pid, signal);
+		}
+	} catch {
+		// Process group is already gone
+	}
+}
+
+/**
+ * Immediately sends a signal to every running child process group.
+ * Used when the user asks to force-quit a run that is being cancelled.
+ *
+ * @param signal - Signal to send (default: SIGKILL)
+ */
+export function killAllProcesses(signal: NodeJS.Signals = "SIGKILL"): void {
+	for (const pid of liveGroups) killGroup(pid, signal);
+}
+
+/**
+ * Runs a command in its own process group.
+ *
+ * On timeout or abort the whole group receives SIGTERM, followed by SIGKILL
+ * if it is still alive after the grace period, so grandchildren (e.g.
+ * processes spawned by `bun run`) do not outlive the task.
+ *
+ * @param cmd - Command and arguments
+ * @param options - Execution options
+ * @returns Exit code, combined output and how the process was stopped
+ */
+export async function runProcess(
+	cmd: readonly string[],
+	options: RunProcessOptions = {},
+): Promise<ProcessResult> {
+	if (options.signal?.aborted) {
+		return { exitCode: null, output: "", timedOut: false, cancelled: true };
+	}
+
+	const proc = Bun.spawn([...cmd], {
+		cwd: options.cwd,
+		env: options.env ? { ...process.env, ...options.env } : undefined,
+		stdin: "ignore",
+		stdout: "pipe",
+		stderr: "pipe",
+		detached: true,
+	});
+	liveGroups.add(proc.pid);
+
+	let timedOut = false;
+	let cancelled = false;
+	let killTimer: ReturnType<typeof setTimeout> | undefined;
+	const terminate = () => {
+		if (killTimer) return;
+		killGroup(proc.pid, "SIGTERM");
+		killTimer = setTimeout(
+			() => killGroup(proc.pid, "SIGKILL"),
+			options.killGracePeriod ?? KILL_GRACE_MS,
+		);
+	};
+
+	const timeoutTimer =
+		options.timeout !== undefined && options.timeout > 0
+			? setTimeout(() => {
+					timedOut = true;
+					terminate();
+				}, options.timeout)
+			: undefined;
+	const onAbort = () => {
+		cancelled = true;
+		terminate();
+	};
+	options.signal?.addEventListener("abort", onAbort, { once: true });
+
+	try {
+		const [stdout, stderr, exitCode] = await Promise.all([
+			new Response(proc.stdout).text(),
+			new Response(proc.stderr).text(),
+			proc.exited,
+		]);
+		return {
+			exitCode: proc.signalCode ? null : exitCode,
+			output: stdout + stderr,
+			timedOut: timedOut && !cancelled,
+			cancelled,
+		};
+	} finally {
+		liveGroups.delete(proc.pid);
+		options.signal?.removeEventListener("abort", onAbort);
+		clearTimeout(timeoutTimer);
+		clearTimeout(killTimer);
+	}
+}
@@ -6,6 +6,7 @@
  */
 
 import { ANSI } from "./colors";
+import { formatTimeout } from "./formatting";
 import type { ColorFn, StepStatus } from "./types";
 
 /**
@@ -13,8 +14,20 @@ import type { ColorFn, StepStatus } from "./types";
  */
 export type NestedTask = {
 	readonly id: string;
-	status: "pending" | "running" | "done" | "failed";
+	status: StepStatus;
 	duration?: number;
+	/** Timeout the task exceeded, in milliseconds */
+	timeout?: number;
+	/** Current attempt while retrying */
+	retry?: RetryProgress;
+};
+
+/**
+ * Attempt counter shown while a step or task is being retried.
+ */
+export type RetryProgress = {
+	readonly attempt: number;
+	readonly attempts: number;
 };
 
 /**
@@ -24,6 +37,10 @@ export type RenderStepState = {
 	name: string;
 	status: StepStatus;
 	duration?: number;
+	/** Timeout the step exceeded, in milliseconds */
+	timeout?: number;
+	/** Current attempt while retrying */
+	retry?: RetryProgress;
 	nested: NestedTask[];
 	showNested: boolean;
 };
@@ -34,12 +51,37 @@ export type RenderStepState = {
 export type ProgressPrinterOptions = {
 	readonly isTTY: boolean;
 	readonly c: ColorFn;
+	/** Matrix steps: child step names by parent name, rendered under the parent */
+	readonly groups?: ReadonlyMap<string, readonly string[]>;
 };
 
+/**
+ * Derives a group's status from its children.
+ *
+ * A group is running while any child is running or still pending after
+ * others started, and otherwise takes its most severe child status.
+ */
+export function aggregateStatus(statuses: readonly StepStatus[]): StepStatus {
+	if (statuses.includes("running")) return "running";
+	if (statuses.includes("pending")) {
+		return statuses.every((s) => s === "pending") ? "pending" : "running";
+	}
+	for (const status of ["failed", "timeout", "cancelled", "warning"] as const) {
+		if (statuses.includes(status)) return status;
+	}
+	if (statuses.every((s) => s === "skipped")) return "skipped";
+	if (statuses.every((s) => s === "cached")) return "cached";
+	return "done";
+}
+
 /**
  * Formats a step line for display.
  */
-function formatStepLine(state: RenderStepState, c: ColorFn): string {
+function formatStepLine(
+	state: RenderStepState,
+	c: ColorFn,
+	indent = "  ",
+): string {
 	const name = state.name.padEnd(16);
 	const duration = state.duration
 		? state.duration >= 1000
@@ -49,17 +91,27 @@ function formatStepLine(state: RenderStepState, c: ColorFn): string {
 
 	switch (state.status) {
 		case "pending":
-			return `  ${c("dim", "○")} ${c("dim", name)} ${c("dim", "waiting...")}`;
+			return `${indent}${c("dim", "○")} ${c("dim", name)} ${c("dim", "waiting...")}`;
 		case "running":
-			return `  ${c("cyan", "◐")} ${c("cyan", name)} ${c("dim", "running...")}`;
+			return state.retry
+				? `${indent}${c("cyan", "◐")} ${c("cyan", name)} ${c("yellow", `retry ${state.retry.attempt}/${state.retry.attempts}`)}`
+				: `${indent}${c("cyan", "◐")} ${c("cyan", name)} ${c("dim", "running...")}`;
 		case "done":
-			return `  ${c("green", "✓")} ${name} ${c("dim", duration)}`;
+			return `${indent}${c("green", "✓")} ${name} ${c("dim", duration)}`;
+		case "cached":
+			return `${indent}${c("blue", "↺")} ${name} ${c("blue", "cached")} ${c("dim", duration)}`;
 		case "failed":
-			return `  ${c("red", "✗")} ${name} ${c("dim", duration)}`;
+			return `${indent}${c("red", "✗")} ${name} ${c("dim", duration)}`;
+		case "warning":
+			return `${indent}${c("yellow", "⚠")} ${c("yellow", name)} ${c("yellow", "failed (allowed)")} ${c("dim", duration)}`;
+		case "cancelled":
+			return `${indent}${c("yellow", "⊘")} ${c("yellow", name)} ${c("yellow", "cancelled")} ${c("dim", duration)}`;
+		case "timeout":
+			return `${indent}${c("red", "⏱")} ${name} ${c("red", formatTimeout(state.timeout ?? state.duration ?? 0))}`;
 		case "skipped":
-			return `  ${c("yellow", "○")} ${c("yellow", name)} ${c("dim", "skipped")}`;
+			return `${indent}${c("yellow", "○")} ${c("yellow", name)} ${c("dim", "skipped")}`;
 		default:
-			return `  ${c("dim", "○")} ${name}`;
+			return `${indent}${c("dim", "○")} ${name}`;
 	}
 }
 
@@ -73,11 +125,23 @@ function formatNestedLine(task: NestedTask, c: ColorFn): string {
 		case "pending":
 			return `      ${c("dim", "○")} ${c("dim", task.id)}`;
 		case "running":
-			return `      ${c("cyan", "◐")} ${c("cyan", task.id)}`;
+			return task.retry
+				? `      ${c("cyan", "◐")} ${c("cyan", task.id)} ${c("yellow", `retry ${task.retry.attempt}/${task.retry.attempts}`)}`
+				: `      ${c("cyan", "◐")} ${c("cyan", task.id)}`;
 		case "done":
 			return `      ${c("green", "✓")} ${task.id} ${c("dim", duration)}`;
+		case "cached":
+			return `      ${c("blue", "↺")} ${task.id} ${c("blue", "cached")} ${c("dim", duration)}`;
 		case "failed":
 			return `      ${c("red", "✗")} ${task.id} ${c("dim", duration)}`;
+		case "warning":
+			return `      ${c("yellow", "⚠")} ${c("yellow", task.id)} ${c("yellow", "failed (allowed)")} ${c("dim", duration)}`;
+		case "cancelled":
+			return `      ${c("yellow", "⊘")} ${c("yellow", task.id)} ${c("yellow", "cancelled")}`;
+		case "timeout":
+			return `      ${c("red", "⏱")} ${task.id} ${c("red", formatTimeout(task.timeout ?? task.duration ?? 0))}`;
+		case "skipped":
+			return `      ${c("yellow", "○")} ${c("yellow", task.id)} ${c("dim", "skipped")}`;
 		default:
 			return `      ${c("dim", "○")} ${task.id}`;
 	}
@@ -91,6 +155,7 @@ function formatNestedLine(task: NestedTask, c: ColorFn): string {
 export class ProgressPrinter {
 	readonly #steps: Map<string, RenderStepState>;
 	readonly #stepOrder: readonly string[];
+	readonly #groups: ReadonlyMap<string, readonly string[]>;
 	readonly #isTTY: boolean;
 	readonly #c: ColorFn;
 
@@ -100,7 +165,7 @@ export class ProgressPrinter {
 
 	constructor(stepNames: readonly string[], options: ProgressPrinterOptions) {
 		this.#steps = new Map();
-		this.#stepOrder = stepNames;
+		this.#groups = options.groups ?? new Map();
 		this.#isTTY = options.isTTY;
 		this.#c = options.c;
 
@@ -112,6 +177,15 @@ export class ProgressPrinter {
 				showNested: false,
 			});
 		}
+
+		// Children are rendered under their group, at the first child's position
+		const groupOf = new Map<string, string>();
+		for (const [group, children] of this.#groups) {
+			for (const child of children) groupOf.set(child, group);
+		}
+		this.#stepOrder = [
+			...new Set(stepNames.map((name) => groupOf.get(name) ?? name)),
+		];
 	}
 
 	/**
@@ -119,16 +193,27 @@ export class ProgressPrinter {
 	 */
 	updateStep(
 		name: string,
-		update: Partial<Pick<RenderStepState, "status" | "duration">>,
+		update: Partial<
+			Pick<RenderStepState, "status" | "duration" | "timeout" | "retry">
+		>,
 	): void {
 		const state = this.#steps.get(name);
 		if (!state) return;
 
 		if (update.status !== undefined) state.status = update.status;
 		if (update.duration !== undefined) state.duration = update.duration;
+		if (update.timeout !== undefined) state.timeout = update.timeout;
+		if (update.retry !== undefined) state.retry = update.retry;
 
 		// Hide nested when step completes
-		if (state.status === "done" || state.status === "failed") {
+		if (
+			state.status === "done" ||
+			state.status === "cached" ||
+			state.status === "failed" ||
+			state.status === "timeout" ||
+			state.status === "cancelled" ||
+			state.status === "warning"
+		) {
 			state.showNested = false;
 		}
 
@@ -153,7 +238,9 @@ export class ProgressPrinter {
 	updateNested(
 		stepName: string,
 		taskId: string,
-		update: Partial<Pick<NestedTask, "status" | "duration">>,
+		update: Partial<
+			Pick<NestedTask, "status" | "duration" | "timeout" | "retry">
+		>,
 	): void {
 		const state = this.#steps.get(stepName);
 		if (!state) return;
@@ -163,6 +250,8 @@ export class ProgressPrinter {
 
 		if (update.status !== undefined) task.status = update.status;
 		if (update.duration !== undefined) task.duration = update.duration;
+		if (update.timeout !== undefined) task.timeout = update.timeout;
+		if (update.retry !== undefined) task.retry = update.retry;
 
 		this.#reconcile();
 	}
@@ -192,6 +281,12 @@ export class ProgressPrinter {
 		const lines: string[] = [];
 
 		for (const name of this.#stepOrder) {
+			const children = this.#groups.get(name);
+			if (children) {
+				this.#buildGroupLines(name, children, lines);
+				continue;
+			}
+
 			const state = this.#steps.get(name);
 			if (!state) continue;
 
@@ -207,6 +302,46 @@ export class ProgressPrinter {
 		return lines;
 	}
 
+	/**
+	 * Build lines for a matrix group: a summary line, then its children while
+	 * any of them are in progress or failed.
+	 */
+	#buildGroupLines(
+		name: string,
+		children: readonly string[],
+		lines: string[],
+	): void {
+		const states = children
+			.map((child) => this.#steps.get(child))
+			.filter((state) => state !== undefined);
+		const status = aggregateStatus(states.map((state) => state.status));
+		const duration = Math.max(0, ...states.map((state) => state.duration ?? 0));
+		const timeout = states.find((state) => state.status === "timeout")?.timeout;
+		lines.push(
+			formatStepLine(
+				{ name, status, duration, timeout, nested: [], showNested: false },
+				this.#c,
+			),
+		);
+
+		if (
+			status === "pending" ||
+			status === "done" ||
+			status === "cached" ||
+			status === "skipped"
+		) {
+			return;
+		}
+		for (const state of states) {
+			lines.push(formatStepLine(state, this.#c, "      "));
+			if (state.showNested) {
+				for (const task of state.nested) {
+					lines.push(`    ${formatNestedLine(task, this.#c)}`);
+				}
+			}
+		}
+	}
+
 	/**
 	 * Reconcile: diff old vs new lines and update terminal.
 	 */
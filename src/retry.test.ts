@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { getRetryDelay, shouldRetry, withRetry } from "./retry";
+
+describe("getRetryDelay", () => {
+	test("grows exponentially by default", () => {
+		const policy = { attempts: 4, delayMs: 100 };
+		expect([1, 2, 3].map((n) => getRetryDelay(policy, n))).toEqual([
+			100, 200, 400,
+		]);
+	});
+
+	test("grows linearly", () => {
+		const policy = { attempts: 4, delayMs: 100, backoff: "linear" as const };
+		expect([1, 2, 3].map((n) => getRetryDelay(policy, n))).toEqual([
+			100, 200, 300,
+		]);
+	});
+});
+
+describe("shouldRetry", () => {
+	test("retries any failure without onExitCodes", () => {
+		expect(shouldRetry({ attempts: 2 }, { success: false, exitCode: 1 })).toBe(
+			true,
+		);
+		expect(shouldRetry({ attempts: 2 }, { success: true, exitCode: 0 })).toBe(
+			false,
+		);
+	});
+
+	test("only retries listed exit codes", () => {
+		const policy = { attempts: 2, onExitCodes: [75] };
+		expect(shouldRetry(policy, { success: false, exitCode: 75 })).toBe(true);
+		expect(shouldRetry(policy, { success: false, exitCode: 1 })).toBe(false);
+		expect(shouldRetry(policy, { success: false, exitCode: null })).toBe(false);
+	});
+
+	test("never retries cancelled attempts", () => {
+		expect(
+			shouldRetry({ attempts: 2 }, { success: false, cancelled: true }),
+		).toBe(false);
+	});
+});
+
+describe("withRetry", () => {
+	test("retries until success and reports attempts", async () => {
+		const retries: string[] = [];
+		const result = await withRetry(
+			{ attempts: 3, delayMs: 0 },
+			async (attempt) => ({ success: attempt === 2 }),
+			{
+				onRetry: (attempt, attempts) => retries.push(`${attempt}/${attempts}`),
+			},
+		);
+
+		expect(result).toEqual({ success: true, attempts: 2 });
+		expect(retries).toEqual(["2/3"]);
+	});
+
+	test("gives up after the last attempt", async () => {
+		let calls = 0;
+		const result = await withRetry({ attempts: 3, delayMs: 0 }, async () => {
+			calls++;
+			return { success: false };
+		});
+
+		expect(calls).toBe(3);
+		expect(result.attempts).toBe(3);
+	});
+
+	test("runs once without a policy", async () => {
+		let calls = 0;
+		await withRetry(undefined, async () => {
+			calls++;
+			return { success: false };
+		});
+		expect(calls).toBe(1);
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Retry policies for flaky steps and workspace tasks.
+ */
+
+import type { RetryPolicy } from "./types";
+
+/**
+ * Delay before the first retry when a policy does not set `delayMs`.
+ */
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Minimal result shape a retry policy inspects.
+ */
+export type RetryableResult = {
+	readonly success: boolean;
+	/** Exit code of the command, when it ran to completion */
+	readonly exitCode?: number | null;
+	readonly cancelled?: boolean;
+};
+
+/**
+ * Options for `withRetry`.
+ */
+export type RetryOptions = {
+	/** Called before each retry with the upcoming attempt number */
+	readonly onRetry?: (attempt: number, attempts: number) => void;
+	/** Cuts the delay between attempts short when aborted */
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Computes the delay before a retry.
+ *
+ * @param policy - Retry policy
+ * @param retry - Retry number (1 for the first retry)
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * ```ts
+ * getRetryDelay({ attempts: 4, delayMs: 500 }, 3); // 2000 (exponential)
+ * getRetryDelay({ attempts: 4, delayMs: 500, backoff: "linear" }, 3); // 1500
+ * ```
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+	const base = policy.delayMs ?? DEFAULT_RETRY_DELAY_MS;
+	return policy.backoff === "linear" ? base * retry : base * 2 ** (retry - 1);
+}
+
+/**
+ * Decides whether a failed attempt should be retried.
+ * Successful and cancelled attempts are never retried; with `onExitCodes`
+ * only failures exiting with a listed code are.
+ *
+ * @param policy - Retry policy
+ * @param result - Result of the attempt
+ * @returns True if another attempt should be made
+ */
+export function shouldRetry(
+	policy: RetryPolicy,
+	result: RetryableResult,
+): boolean {
+	if (result.success || result.cancelled) return false;
+	if (!policy.onExitCodes) return true;
+	return (
+		result.exitCode !== undefined &&
+		result.exitCode !== null &&
+		policy.onExitCodes.includes(result.exitCode)
+	);
+}
+
+/**
+ * Waits for a delay, resolving early when the signal aborts.
+ */
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) return resolve();
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
+
+/**
+ * Runs an attempt function until it succeeds, the policy gives up, or the
+ * attempt is cancelled.
+ *
+ * @param policy - Retry policy (undefined runs a single attempt)
+ * @param fn - Runs one attempt; receives the attempt number starting at 1
+ * @param options - Retry callbacks and abort signal
+ * @returns Result of the last attempt with the number of attempts made
+ */
+export async function withRetry<R extends RetryableResult>(
+	policy: RetryPolicy | undefined,
+	fn: (attempt: number) => Promise<R>,
+	options: RetryOptions = {},
+): Promise<R & { readonly attempts: number }> {
+	const attempts = policy?.attempts ?? 1;
+	for (let attempt = 1; ; attempt++) {
+		const result = await fn(attempt);
+		if (!policy || attempt >= attempts || !shouldRetry(policy, result)) {
+			return { ...result, attempts: attempt };
+		}
+		// An abort during the delay still makes one more call, which returns
+		// a cancelled result immediately
+		await delay(getRetryDelay(policy, attempt), options.signal);
+		options.onRetry?.(attempt + 1, attempts);
+	}
+}
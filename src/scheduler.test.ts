@@ -0,0 +1,205 @@
+import { describe, expect, test } from "bun:test";
+import type { TaskNode } from "./npm-workspace";
+import { parseConcurrency, ResourcePool, runTaskGraph } from "./scheduler";
+
+const node = (name: string, dependencies: string[] = []): TaskNode => ({
+	packageName: name,
+	packagePath: `/packages/${name}`,
+	script: "build",
+	dependencies: dependencies.map((d) => `${d}#build`),
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("parseConcurrency", () => {
+	test("parses integers", () => {
+		expect(parseConcurrency("4", 8)).toBe(4);
+	});
+
+	test("parses percentages of CPUs", () => {
+		expect(parseConcurrency("50%", 8)).toBe(4);
+		expect(parseConcurrency("10%", 4)).toBe(1);
+	});
+
+	test("rejects invalid values", () => {
+		expect(() => parseConcurrency("0", 8)).toThrow(/Invalid concurrency/);
+		expect(() => parseConcurrency("abc", 8)).toThrow(/Invalid concurrency/);
+		expect(() => parseConcurrency("-1", 8)).toThrow(/Invalid concurrency/);
+	});
+});
+
+describe("runTaskGraph", () => {
+	test("starts tasks as soon as their own dependencies finish", async () => {
+		// slow and fast have no deps; after-fast only waits on fast
+		const nodes = [node("slow"), node("fast"), node("after-fast", ["fast"])];
+		const order: string[] = [];
+
+		await runTaskGraph(nodes, {
+			run: async (n) => {
+				await sleep(n.packageName === "slow" ? 50 : 5);
+				order.push(n.packageName);
+				return { success: true };
+			},
+		});
+
+		expect(order).toEqual(["fast", "after-fast", "slow"]);
+	});
+
+	test("respects the concurrency limit", async () => {
+		const nodes = [node("a"), node("b"), node("c"), node("d")];
+		let active = 0;
+		let peak = 0;
+
+		await runTaskGraph(nodes, {
+			concurrency: 2,
+			run: async () => {
+				active++;
+				peak = Math.max(peak, active);
+				await sleep(5);
+				active--;
+				return { success: true };
+			},
+		});
+
+		expect(peak).toBe(2);
+	});
+
+	test("stops starting tasks after a failure", async () => {
+		const nodes = [node("a"), node("b", ["a"]), node("c", ["b"])];
+
+		const { results, skipped } = await runTaskGraph(nodes, {
+			run: async (n) => ({ success: n.packageName !== "a" }),
+		});
+
+		expect(results).toHaveLength(1);
+		expect(skipped.map((n) => n.packageName)).toEqual(["b", "c"]);
+	});
+
+	test("stops starting tasks once aborted", async () => {
+		const controller = new AbortController();
+		const nodes = [node("a"), node("b", ["a"])];
+
+		const { results, skipped } = await runTaskGraph(nodes, {
+			signal: controller.signal,
+			run: async () => {
+				controller.abort();
+				return { success: true };
+			},
+		});
+
+		expect(results).toHaveLength(1);
+		expect(skipped.map((n) => n.packageName)).toEqual(["b"]);
+	});
+
+	test("skips tasks waiting for capacity after a failure", async () => {
+		const pool = new ResourcePool(1);
+		const nodes = [node("a"), node("b"), node("c")];
+
+		const { results, skipped } = await runTaskGraph(nodes, {
+			acquire: () => pool.acquire({ slots: 1, mutexes: [] }),
+			run: async (n) => ({ success: n.packageName !== "a" }),
+		});
+
+		expect(results).toHaveLength(1);
+		expect(skipped.map((n) => n.packageName)).toEqual(["b", "c"]);
+		expect(await pool.acquire({ slots: 1, mutexes: [] })).toBeFunction();
+	});
+
+	test("ignores dependencies outside the node set", async () => {
+		const { results } = await runTaskGraph([node("a", ["missing"])], {
+			run: async () => ({ success: true }),
+		});
+		expect(results).toHaveLength(1);
+	});
+
+	test("throws on circular dependencies before running anything", async () => {
+		let ran = false;
+		const nodes = [node("a", ["b"]), node("b", ["a"]), node("c")];
+
+		expect(
+			runTaskGraph(nodes, {
+				run: async () => {
+					ran = true;
+					return { success: true };
+				},
+			}),
+		).rejects.toThrow(/Circular dependency detected/);
+		expect(ran).toBe(false);
+	});
+});
+
+describe("ResourcePool", () => {
+	test("grants requests up to capacity", async () => {
+		const pool = new ResourcePool(3);
+		const granted: string[] = [];
+
+		const a = pool.acquire({ slots: 2, mutexes: [] }).then((release) => {
+			granted.push("a");
+			return release;
+		});
+		const b = pool.acquire({ slots: 2, mutexes: [] }).then((release) => {
+			granted.push("b");
+			return release;
+		});
+
+		const releaseA = await a;
+		await sleep(1);
+		expect(granted).toEqual(["a"]);
+
+		releaseA();
+		(await b)();
+		expect(granted).toEqual(["a", "b"]);
+	});
+
+	test("serializes holders of the same mutex", async () => {
+		const pool = new ResourcePool();
+		const releaseA = await pool.acquire({ slots: 1, mutexes: ["database"] });
+		let bGranted = false;
+		const b = pool
+			.acquire({ slots: 1, mutexes: ["database"] })
+			.then((release) => {
+				bGranted = true;
+				return release;
+			});
+		const other = await pool.acquire({ slots: 1, mutexes: ["cache"] });
+
+		await sleep(1);
+		expect(bGranted).toBe(false);
+
+		releaseA();
+		(await b)();
+		other();
+		expect(bGranted).toBe(true);
+	});
+
+	test("does not let small requests starve a heavy waiter", async () => {
+		const pool = new ResourcePool(2);
+		const first = await pool.acquire({ slots: 1, mutexes: [] });
+		const order: string[] = [];
+
+		const heavy = pool.acquire({ slots: 2, mutexes: [] }).then((release) => {
+			order.push("heavy");
+			release();
+		});
+		const light = pool.acquire({ slots: 1, mutexes: [] }).then((release) => {
+			order.push("light");
+			release();
+		});
+
+		await sleep(1);
+		expect(order).toEqual([]);
+
+		first();
+		await Promise.all([heavy, light]);
+		expect(order).toEqual(["heavy", "light"]);
+	});
+
+	test("clamps requests larger than the pool", async () => {
+		const pool = new ResourcePool(2);
+		const release = await pool.acquire({ slots: 8, mutexes: [] });
+		release();
+		release(); // idempotent
+		const again = await pool.acquire({ slots: 2, mutexes: [] });
+		again();
+	});
+});
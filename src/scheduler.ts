@@ -0,0 +1,276 @@
+/**
+ * Ready-queue scheduling for task graphs.
+ *
+ * Unlike layer-by-layer execution, each task starts as soon as its own
+ * dependencies have completed, bounded by a concurrency limit.
+ */
+
+import { availableParallelism } from "node:os";
+import type { TaskNode } from "./npm-workspace";
+
+/**
+ * Parses a `--concurrency` value: a positive integer or a percentage of the
+ * available CPUs (e.g. `50%`). Percentages resolve to at least 1.
+ *
+ * @param value - Raw concurrency value
+ * @param cpus - Available CPUs (defaults to `os.availableParallelism()`)
+ * @returns Concurrency limit
+ * @throws Error if the value is not a positive integer or percentage
+ */
+export function parseConcurrency(
+	value: string,
+	cpus: number = availableParallelism(),
+): number {
+	const trimmed = value.trim();
+	const percent = /^(\d+(?:\.\d+)?)%$/.exec(trimmed);
+	if (percent?.[1]) {
+		const ratio = Number(percent[1]) / 100;
+		if (ratio > 0) return Math.max(1, Math.floor(cpus * ratio));
+	} else if (/^\d+$/.test(trimmed) && Number(trimmed) > 0) {
+		return Number(trimmed);
+	}
+	throw new Error(
+		`Invalid concurrency "${value}": expected a positive integer or percentage (e.g. 4 or 50%)`,
+	);
+}
+
+/**
+ * Options for running a task graph.
+ */
+export type TaskGraphOptions<R> = {
+	/** Maximum number of tasks running at once (default: unlimited) */
+	readonly concurrency?: number;
+	/** Runs a single task */
+	readonly run: (node: TaskNode) => Promise<R>;
+	/**
+	 * Reserves capacity before a task starts; the task is skipped if a task
+	 * fails or the run is aborted while it waits
+	 */
+	readonly acquire?: (node: TaskNode) => Promise<() => void>;
+	/** Called when a task starts */
+	readonly onStart?: (node: TaskNode) => void;
+	/** Stops starting new tasks when aborted */
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Outcome of running a task graph.
+ */
+export type TaskGraphResult<R> = {
+	/** Results of tasks that ran, in completion order */
+	readonly results: readonly R[];
+	/** Tasks that never started because an earlier task failed or the run was aborted */
+	readonly skipped: readonly TaskNode[];
+};
+
+const taskId = (node: TaskNode) => `${node.packageName}#${node.script}`;
+
+/**
+ * Runs task nodes in dependency order, starting each task as soon as its
+ * dependencies are done. After the first failure (or an abort) no new tasks
+ * are started, including tasks still waiting in `acquire`; tasks already
+ * running are allowed to finish.
+ *
+ * @param nodes - Task nodes (dependencies outside this list are ignored)
+ * @param options - Runner and concurrency options
+ * @returns Results of executed tasks and the tasks that were skipped
+ * @throws Error if the nodes contain a circular dependency
+ */
+export async function runTaskGraph<R extends { readonly success: boolean }>(
+	nodes: readonly TaskNode[],
+	options: TaskGraphOptions<R>,
+): Promise<TaskGraphResult<R>> {
+	const limit = options.concurrency ?? Number.POSITIVE_INFINITY;
+	const ids = new Set(nodes.map(taskId));
+	const remainingDeps = new Map<string, number>();
+	const dependents = new Map<string, TaskNode[]>();
+
+	for (const node of nodes) {
+		const deps = node.dependencies.filter((d) => ids.has(d));
+		remainingDeps.set(taskId(node), deps.length);
+		for (const dep of deps) {
+			const list = dependents.get(dep) ?? [];
+			list.push(node);
+			dependents.set(dep, list);
+		}
+	}
+
+	const ready = nodes.filter((n) => remainingDeps.get(taskId(n)) === 0);
+
+	// Reject cycles up front so no task starts in an unrunnable graph
+	const pending = new Map(remainingDeps);
+	const reachable = [...ready];
+	for (let i = 0; i < reachable.length; i++) {
+		const node = reachable[i];
+		if (!node) continue;
+		for (const dependent of dependents.get(taskId(node)) ?? []) {
+			const left = (pending.get(taskId(dependent)) ?? 1) - 1;
+			pending.set(taskId(dependent), left);
+			if (left === 0) reachable.push(dependent);
+		}
+	}
+	if (reachable.length < nodes.length) {
+		const blocked = nodes.filter((n) => !reachable.includes(n)).map(taskId);
+		throw new Error(
+			`Circular dependency detected in tasks: ${blocked.join(", ")}`,
+		);
+	}
+
+	const running = new Map<string, Promise<void>>();
+	const started = new Set<string>();
+	const results: R[] = [];
+	let failed = false;
+
+	while (ready.length > 0 || running.size > 0) {
+		while (
+			!failed &&
+			!options.signal?.aborted &&
+			running.size < limit &&
+			ready.length > 0
+		) {
+			const node = ready.shift();
+			if (!node) break;
+			const id = taskId(node);
+
+			const promise = (async () => {
+				const release = await options.acquire?.(node);
+				if (release && (failed || options.signal?.aborted)) {
+					release();
+					running.delete(id);
+					return;
+				}
+				started.add(id);
+				options.onStart?.(node);
+				// Capacity is released once a failure is recorded, so waiting tasks see it
+				try {
+					const result = await options.run(node);
+					results.push(result);
+					running.delete(id);
+					if (!result.success) {
+						failed = true;
+						return;
+					}
+					for (const dependent of dependents.get(id) ?? []) {
+						const dependentId = taskId(dependent);
+						const left = (remainingDeps.get(dependentId) ?? 1) - 1;
+						remainingDeps.set(dependentId, left);
+						if (left === 0) ready.push(dependent);
+					}
+				} finally {
+					release?.();
+				}
+			})();
+			running.set(id, promise);
+		}
+
+		if (running.size === 0) break;
+		await Promise.race(running.values());
+	}
+
+	const skipped = nodes.filter((n) => !started.has(taskId(n)));
+	return { results, skipped };
+}
+
+/**
+ * A request for capacity from a `ResourcePool`.
+ */
+export type ResourceRequest = {
+	/** Slots taken from the shared pool */
+	readonly slots: number;
+	/** Named locks held exclusively */
+	readonly mutexes: readonly string[];
+};
+
+type Waiter = {
+	readonly request: ResourceRequest;
+	readonly grant: (release: () => void) => void;
+};
+
+/**
+ * Run-wide pool of concurrency slots and named mutexes.
+ *
+ * Top-level steps and nested workspace tasks acquire from the same pool, so
+ * `--concurrency` bounds the total work in flight. Waiters are served in
+ * order; a waiter blocked on slots holds back later slot requests (so heavy
+ * tasks are not starved), while a waiter blocked only on a mutex does not.
+ *
+ * @example
+ * ```ts
+ * const pool = new ResourcePool(4);
+ * const release = await pool.acquire({ slots: 2, mutexes: ["database"] });
+ * try {
+ *   await runIntegrationTests();
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export class ResourcePool {
+	readonly #capacity: number;
+	readonly #heldMutexes = new Set<string>();
+	readonly #waiters: Waiter[] = [];
+	#used = 0;
+
+	/**
+	 * @param capacity - Total slots (Infinity for no limit)
+	 */
+	constructor(capacity: number = Number.POSITIVE_INFINITY) {
+		this.#capacity = capacity;
+	}
+
+	get capacity(): number {
+		return this.#capacity;
+	}
+
+	/**
+	 * Waits until the request can be satisfied and reserves it.
+	 * Requests for more slots than the pool holds are clamped to its capacity.
+	 *
+	 * @returns Function that releases the reservation (idempotent)
+	 */
+	acquire(request: ResourceRequest): Promise<() => void> {
+		const normalized: ResourceRequest = {
+			slots: Math.min(Math.max(0, request.slots), this.#capacity),
+			mutexes: [...new Set(request.mutexes)],
+		};
+		return new Promise((resolve) => {
+			this.#waiters.push({ request: normalized, grant: resolve });
+			this.#drain();
+		});
+	}
+
+	#drain(): void {
+		let slotsBlocked = false;
+		for (let i = 0; i < this.#waiters.length; ) {
+			const waiter = this.#waiters[i];
+			if (!waiter) break;
+			const { slots, mutexes } = waiter.request;
+
+			const mutexFree = mutexes.every((m) => !this.#heldMutexes.has(m));
+			const slotsFree =
+				slots === 0 || (!slotsBlocked && this.#used + slots <= this.#capacity);
+
+			if (mutexFree && slotsFree) {
+				this.#waiters.splice(i, 1);
+				this.#used += slots;
+				for (const m of mutexes) this.#heldMutexes.add(m);
+				waiter.grant(this.#releaser(waiter.request));
+				continue;
+			}
+
+			if (mutexFree && !slotsFree) slotsBlocked = true;
+			i++;
+		}
+	}
+
+	#releaser(request: ResourceRequest): () => void {
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			this.#used -= request.slots;
+			for (const m of request.mutexes) this.#heldMutexes.delete(m);
+			this.#drain();
+		};
+	}
+}
@@ -11,6 +11,20 @@ export const WorktreeCpActionSchema = z.object({
 	allowMissing: z.boolean().optional(),
 });
 
+/**
+ * Retry policy for flaky steps and workspace tasks.
+ */
+export const RetrySchema = z.object({
+	/** Total attempts, including the first run */
+	attempts: z.number().int().positive(),
+	/** Delay before the first retry in milliseconds (default: 1000) */
+	delayMs: z.number().int().nonnegative().optional(),
+	/** How the delay grows between retries (default: "exponential") */
+	backoff: z.enum(["linear", "exponential"]).optional(),
+	/** Only retry when the command exits with one of these codes */
+	onExitCodes: z.array(z.number().int()).optional(),
+});
+
 /**
  * Bun action configuration for workspace-aware script execution.
  */
@@ -21,29 +35,276 @@ export const BunActionSchema = z.object({
 	timeout: z.number().optional(),
 	/** Turborepo-style dependencies: ^task, task, package#task */
 	dependsOn: z.array(z.string()).optional(),
+	/** Input globs (relative to each package) and `$ENV_VAR` names; enables caching */
+	inputs: z.array(z.string()).optional(),
+	/** Output globs (relative to each package) restored on cache hit */
+	outputs: z.array(z.string()).optional(),
+	/** Retry policy applied to each package task */
+	retry: RetrySchema.optional(),
+});
+
+/**
+ * A single matrix axis value.
+ */
+export const MatrixValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+type MatrixValueType = z.infer<typeof MatrixValueSchema>;
+
+/**
+ * Matrix definition. Declared by hand: the inferred type of `catchall`
+ * rejects object literals that set `include` or `exclude`.
+ */
+export type Matrix = {
+	include?: Record<string, MatrixValueType>[];
+	exclude?: Record<string, MatrixValueType>[];
+	[axis: string]:
+		| MatrixValueType[]
+		| Record<string, MatrixValueType>[]
+		| undefined;
+};
+
+/**
+ * Matrix of parameter combinations a step fans out over.
+ * Every other key is an axis listing its values.
+ */
+export const MatrixSchema: z.ZodType<Matrix, Matrix> = z
+	.object({
+		/** Extra combinations added after expansion */
+		include: z.array(z.record(z.string(), MatrixValueSchema)).optional(),
+		/** Combinations removed when they match every key of an entry */
+		exclude: z.array(z.record(z.string(), MatrixValueSchema)).optional(),
+	})
+	.catchall(z.array(MatrixValueSchema));
+
+/**
+ * Reference to another workflow run as a step: its name, or the name with
+ * params to pass.
+ */
+export const WorkflowRefSchema = z.union([
+	z.string(),
+	z.object({
+		name: z.string(),
+		/** Param values, applied over params passed through from the caller */
+		params: z.record(z.string(), MatrixValueSchema).optional(),
+	}),
+]);
+
+/**
+ * Resources a step needs while it runs.
+ */
+export const StepResourcesSchema = z.object({
+	/** Slots taken from the run-wide `--concurrency` pool (default: 1) */
+	cpu: z.number().int().positive().optional(),
+	/** Named locks held exclusively (e.g. "database") */
+	mutex: z.union([z.string(), z.array(z.string())]).optional(),
 });
 
 /**
- * A single step in a workflow.
+ * Options schemas of the built-in actions, by the step key that selects them.
  */
-export const StepSchema = z.object({
+export const BUILTIN_ACTION_SCHEMAS = {
+	/** Shell command run with `bun exec` */
+	cmd: z.string(),
+	"worktree:cp": WorktreeCpActionSchema,
+	bun: BunActionSchema,
+	/** Run another workflow from `workflows` as a nested unit */
+	workflow: WorkflowRefSchema,
+} as const;
+
+/**
+ * Options schemas of action types, by the step key that selects them.
+ */
+export type ActionSchemas = Readonly<Record<string, z.ZodType>>;
+
+/**
+ * Step keys that select a built-in action, in registry order.
+ */
+export const BUILTIN_ACTION_KEYS = Object.keys(BUILTIN_ACTION_SCHEMAS);
+
+/**
+ * Step fields other than the action.
+ */
+const StepBaseSchema = z.object({
 	name: z.string(),
 	description: z.string().optional(),
 	dependsOn: z.array(z.string()).optional(),
 	branches: z.array(z.string()).optional(),
-	cmd: z.string().optional(),
-	"worktree:cp": WorktreeCpActionSchema.optional(),
-	bun: BunActionSchema.optional(),
+	/** Globs (relative to git root, `!` to exclude); the step only runs when a matching file changed */
+	paths: z.array(z.string()).optional(),
+	/** Condition expression; the step is skipped when it is false */
+	if: z.string().optional(),
+	/** Timeout in milliseconds for `cmd` steps (default: no timeout) */
+	timeout: z.number().optional(),
+	/** Working directory: a path relative to the git root, or `worktree:<branch>` */
+	cwd: z.string().optional(),
+	/** Environment variables, applied over the workflow `env` and `envFile` */
+	env: z.record(z.string(), z.string()).optional(),
+	/** Dotenv files relative to the step's `cwd`; later files win */
+	envFile: z.union([z.string(), z.array(z.string())]).optional(),
+	/** Input globs (relative to git root) and `$ENV_VAR` names; enables caching */
+	inputs: z.array(z.string()).optional(),
+	/** Output globs (relative to git root) restored on cache hit */
+	outputs: z.array(z.string()).optional(),
+	/** Slots taken from the run-wide pool; for `bun` steps, per nested task (shorthand for `resources.cpu`) */
+	weight: z.number().int().positive().optional(),
+	resources: StepResourcesSchema.optional(),
+	/** Retry policy for the step */
+	retry: RetrySchema.optional(),
+	/** A failure turns the step yellow without failing the job; dependents still run */
+	allowFailure: z.boolean().optional(),
+	/** Run even after failures (e.g. cleanup), once dependencies finish in any state */
+	always: z.boolean().optional(),
+	/** Fan out into one step per combination; `${{ matrix.<key> }}` is replaced in `cmd`, `cwd` and `env` */
+	matrix: MatrixSchema.optional(),
 });
 
 /**
- * A workflow can be an array of steps or an object with a steps property.
+ * Keys action types cannot use: the other step fields and `uses`/`with`.
+ */
+export const RESERVED_STEP_KEYS: readonly string[] = [
+	...Object.keys(StepBaseSchema.shape),
+	"uses",
+	"with",
+];
+
+/**
+ * Step fields including the built-in actions and the `uses` form.
  */
-export const WorkflowSchema = z.union([
-	z.array(StepSchema),
-	z.object({ steps: z.array(StepSchema) }),
+const StepFieldsSchema = StepBaseSchema.extend({
+	cmd: BUILTIN_ACTION_SCHEMAS.cmd.optional(),
+	"worktree:cp": BUILTIN_ACTION_SCHEMAS["worktree:cp"].optional(),
+	bun: BUILTIN_ACTION_SCHEMAS.bun.optional(),
+	workflow: BUILTIN_ACTION_SCHEMAS.workflow.optional(),
+	/** Action to run, with its options under `with` (e.g. `uses: bun`) */
+	uses: z.string().optional(),
+	/** Options of the `uses` action */
+	with: z.unknown().optional(),
+});
+
+/**
+ * Builds the schema of a single step in a workflow.
+ *
+ * A step runs exactly one action: one of the action keys, or `uses` naming
+ * the action with its options under `with`. The `uses` form is resolved to
+ * the action key, so a parsed step only sets that key.
+ *
+ * @param actions - Schemas of plugin actions, added to the built-in ones
+ * @param requireAction - Reject steps without an action; steps that
+ * override a step of an extended or included workflow may omit it
+ */
+function createStepSchema(actions: ActionSchemas, requireAction = true) {
+	const schemas: ActionSchemas = { ...actions, ...BUILTIN_ACTION_SCHEMAS };
+	const pluginKeys = Object.keys(actions).filter(
+		(key) => !BUILTIN_ACTION_KEYS.includes(key),
+	);
+	const keys = [...BUILTIN_ACTION_KEYS, ...pluginKeys];
+	// Plugin keys are not known statically, so they are left out of the type
+	const pluginFields: Record<never, never> = Object.fromEntries(
+		pluginKeys.map((key) => [key, actions[key]?.optional()]),
+	);
+
+	return StepFieldsSchema.extend(pluginFields).transform(
+		({ uses, with: options, ...step }, ctx) => {
+			const fields: Readonly<Record<string, unknown>> = step;
+			const present = [
+				...keys.filter((key) => fields[key] !== undefined),
+				...(uses === undefined ? [] : ["uses"]),
+			];
+			if (present.length === 0 && !requireAction) return step;
+			if (present.length !== 1) {
+				ctx.addIssue({
+					code: "custom",
+					message:
+						present.length === 0
+							? `Step needs an action: one of ${[...keys, "uses"].join(", ")}`
+							: `Step defines ${present.join(" and ")}; use exactly one action`,
+					path: present.slice(1, 2),
+				});
+				return z.NEVER;
+			}
+			if (uses === undefined) return step;
+
+			const schema = Object.hasOwn(schemas, uses) ? schemas[uses] : undefined;
+			if (!schema) {
+				ctx.addIssue({
+					code: "custom",
+					message: `Unknown action "${uses}" (available: ${keys.join(", ")})`,
+					path: ["uses"],
+				});
+				return z.NEVER;
+			}
+			const parsed = schema.safeParse(options);
+			if (!parsed.success) {
+				for (const issue of parsed.error.issues) {
+					ctx.addIssue({ ...issue, path: ["with", ...issue.path] });
+				}
+				return z.NEVER;
+			}
+			return { ...step, [uses]: parsed.data };
+		},
+	);
+}
+
+/**
+ * A single step in a workflow, with the built-in actions only.
+ */
+export const StepSchema = createStepSchema({});
+
+const ParamBaseSchema = z.object({
+	description: z.string().optional(),
+	/** Fail when the param is neither passed nor defaulted */
+	required: z.boolean().optional(),
+});
+
+/**
+ * A workflow parameter passed with `--param key=value`.
+ */
+export const ParamSchema = z.discriminatedUnion("type", [
+	ParamBaseSchema.extend({
+		type: z.literal("string"),
+		default: z.string().optional(),
+	}),
+	ParamBaseSchema.extend({
+		type: z.literal("number"),
+		default: z.number().optional(),
+	}),
+	ParamBaseSchema.extend({
+		type: z.literal("boolean"),
+		default: z.boolean().optional(),
+	}),
+	ParamBaseSchema.extend({
+		type: z.literal("enum"),
+		values: z.array(z.string()).min(1),
+		default: z.string().optional(),
+	}),
 ]);
 
+/**
+ * Builds the schema of a workflow: an array of steps or an object with a
+ * steps property.
+ */
+function createWorkflowSchema(step: typeof StepSchema) {
+	return z.union([
+		z.array(step),
+		z.object({
+			steps: z.array(step).default([]),
+			/** Workflows whose steps run first, merged by step name: `name` or `<file>#<name>` */
+			include: z.array(z.string()).optional(),
+			/** Environment variables inherited by every step */
+			env: z.record(z.string(), z.string()).optional(),
+			/** Base ref for `paths`, `changed()` and `--affected` (default: main) */
+			base: z.string().optional(),
+			/** Parameters passed with `--param`, available as `${{ params.<name> }}` */
+			params: z.record(z.string(), ParamSchema).optional(),
+		}),
+	]);
+}
+
+/**
+ * A workflow can be an array of steps or an object with a steps property.
+ */
+export const WorkflowSchema = createWorkflowSchema(StepSchema);
+
 /**
  * Worktree hook configuration.
  */
@@ -76,18 +337,62 @@ export const WorktreeConfigSchema = z.object({
 });
 
 /**
- * Runner configuration containing workflow definitions.
+ * Task cache configuration.
  */
-export const ConfigSchema = z.object({
-	workflows: z.record(z.string(), WorkflowSchema),
-	worktree: WorktreeConfigSchema.optional(),
+export const CacheConfigSchema = z.object({
+	remote: z
+		.object({
+			/** Base URL of the remote cache server (env: OT_REMOTE_CACHE_URL) */
+			url: z.string().optional(),
+			/** Team identifier sent as `teamId` (env: OT_REMOTE_CACHE_TEAM) */
+			team: z.string().optional(),
+		})
+		.optional(),
 });
 
+/**
+ * Builds the config schema, with the actions of loaded plugins.
+ *
+ * @param actions - Schemas of plugin actions, by step key
+ * @param requireAction - Reject steps without an action (false for a file
+ * whose steps are merged over extended or included steps)
+ */
+export function createConfigSchema(
+	actions: ActionSchemas = {},
+	requireAction = true,
+) {
+	return z.object({
+		/** Config files merged underneath this one: paths relative to it, or `pkg:<module>` */
+		extends: z.array(z.string()).optional(),
+		/** Modules defining action types: paths relative to this file, or package names */
+		plugins: z.array(z.string()).optional(),
+		workflows: z.record(
+			z.string(),
+			createWorkflowSchema(createStepSchema(actions, requireAction)),
+		),
+		worktree: WorktreeConfigSchema.optional(),
+		cache: CacheConfigSchema.optional(),
+	});
+}
+
+/**
+ * Runner configuration containing workflow definitions.
+ */
+export const ConfigSchema = createConfigSchema();
+
 // Export inferred types
 export type WorktreeCpAction = z.infer<typeof WorktreeCpActionSchema>;
 export type BunAction = z.infer<typeof BunActionSchema>;
+export type StepResources = z.infer<typeof StepResourcesSchema>;
+export type RetryPolicy = z.infer<typeof RetrySchema>;
+export type MatrixValue = MatrixValueType;
+export type Param = z.infer<typeof ParamSchema>;
+export type WorkflowRef = z.infer<typeof WorkflowRefSchema>;
 export type Step = z.infer<typeof StepSchema>;
 export type Workflow = z.infer<typeof WorkflowSchema>;
 export type WorktreeHook = z.infer<typeof WorktreeHookSchema>;
 export type WorktreeConfig = z.infer<typeof WorktreeConfigSchema>;
+export type CacheConfig = z.infer<typeof CacheConfigSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
+/** Config as written, before defaults are applied */
+export type ConfigInput = z.input<typeof ConfigSchema>;
@@ -0,0 +1,128 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${{ steps.* }} placeholders
+import { describe, expect, test } from "bun:test";
+import {
+	applyStepOutputs,
+	checkOutputReferences,
+	collectStepOutputs,
+	getOutputReferences,
+	parseStepOutputs,
+} from "./step-outputs";
+
+describe("parseStepOutputs", () => {
+	test("reads key=value lines and multi-line values", () => {
+		expect(
+			parseStepOutputs(
+				"tag=v1.2.0\n\nurl=https://x.test/?a=b\nnotes<<EOF\nline 1\nline 2\nEOF\ntag=v1.2.1\n",
+			),
+		).toEqual({
+			tag: "v1.2.1",
+			url: "https://x.test/?a=b",
+			notes: "line 1\nline 2",
+		});
+	});
+
+	test("rejects malformed lines", () => {
+		expect(() => parseStepOutputs("tag=v1\nv2\n")).toThrow(
+			'Invalid OT_OUTPUT line 2: expected key=value, got "v2"',
+		);
+		expect(() => parseStepOutputs("notes<<EOF\ntext\n")).toThrow(
+			'missing closing "EOF"',
+		);
+	});
+});
+
+describe("collectStepOutputs", () => {
+	test("parses what the function appended to the file", async () => {
+		const { result, outputs } = await collectStepOutputs(async (file) => {
+			await Bun.write(file, "version=2.0.0\n");
+			return 0;
+		});
+		expect(result).toBe(0);
+		expect(outputs).toEqual({ version: "2.0.0" });
+	});
+});
+
+describe("applyStepOutputs", () => {
+	test("interpolates cmd, cwd and env values", () => {
+		const step = applyStepOutputs(
+			{
+				name: "release",
+				cmd: "git tag ${{ steps.version.outputs.tag }}${{ steps.version.outputs.missing }}",
+				cwd: "${{ steps['db:up'].outputs.dir }}",
+				env: { URL: '${{ steps["db:up"].outputs.url }}' },
+				dependsOn: ["version", "db:up"],
+			},
+			{
+				version: { tag: "v1.2.0" },
+				"db:up": { dir: "tmp", url: "postgres://localhost" },
+			},
+		);
+		expect(step.cmd).toBe("git tag v1.2.0");
+		expect(step.cwd).toBe("tmp");
+		expect(step.env).toEqual({ URL: "postgres://localhost" });
+	});
+
+	test("shell-quotes values in cmd only", () => {
+		const step = applyStepOutputs(
+			{
+				name: "notify",
+				cmd: "echo ${{ steps.version.outputs.notes }}",
+				env: { NOTES: "${{ steps.version.outputs.notes }}" },
+				dependsOn: ["version"],
+			},
+			{ version: { notes: "it's done; rm -rf ." } },
+		);
+		expect(step.cmd).toBe(`echo 'it'"'"'s done; rm -rf .'`);
+		expect(step.env).toEqual({ NOTES: "it's done; rm -rf ." });
+	});
+});
+
+describe("checkOutputReferences", () => {
+	test("requires referenced steps in dependsOn", () => {
+		expect([
+			...getOutputReferences(
+				"${{ steps.a.outputs.x }} ${{ steps['b:c'].outputs.y }}",
+			),
+		]).toEqual(["a", "b:c"]);
+		expect(() =>
+			checkOutputReferences([
+				{ name: "version", cmd: "echo tag=v1 >> $OT_OUTPUT" },
+				{ name: "release", cmd: "git tag ${{ steps.version.outputs.tag }}" },
+			]),
+		).toThrow(
+			'Step "release": reads steps.version.outputs, so "version" must be listed in dependsOn',
+		);
+	});
+
+	test("points matrix parents to their children", () => {
+		const groups = new Map([["test", ["test[os=linux]", "test[os=mac]"]]]);
+		const report = (cmd: string) => ({
+			name: "report",
+			cmd,
+			dependsOn: ["test[os=linux]", "test[os=mac]"],
+		});
+		expect(() =>
+			checkOutputReferences(
+				[report("echo ${{ steps.test.outputs.log }}")],
+				groups,
+			),
+		).toThrow(
+			`Step "report": reads steps.test.outputs, but "test" is a matrix step; read one of its children, e.g. steps['test[os=linux]'].outputs`,
+		);
+		checkOutputReferences(
+			[report("echo ${{ steps['test[os=mac]'].outputs.log }}")],
+			groups,
+		);
+		// Unexpanded steps still list the parent in dependsOn
+		checkOutputReferences(
+			[
+				{
+					name: "report",
+					cmd: "echo ${{ steps['test[os=mac]'].outputs.log }}",
+					dependsOn: ["test"],
+				},
+			],
+			groups,
+		);
+	});
+});
@@ -0,0 +1,212 @@
+/**
+ * Step outputs.
+ *
+ * A `cmd` step publishes named values by appending `key=value` lines to the
+ * file named by `$OT_OUTPUT`. Dependent steps read them through
+ * `${{ steps.<name>.outputs.<key> }}` in `cmd`, `cwd` and `env` values, or
+ * `steps.<name>.outputs.<key>` in `if` conditions.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { quoteShellArg } from "./formatting";
+import type { Step } from "./types";
+
+/**
+ * Named values published by a step.
+ */
+export type StepOutputs = Readonly<Record<string, string>>;
+
+/**
+ * Environment variable naming the file a step writes its outputs to.
+ */
+export const OUTPUT_ENV_VAR = "OT_OUTPUT";
+
+const OUTPUT_PATTERN =
+	/\$\{\{\s*steps(?:\.([\w-]+)|\[\s*(?:'([^']*)'|"([^"]*)")\s*\])\.outputs\.([\w-]+)\s*\}\}/g;
+
+/**
+ * Parses the contents of an output file.
+ *
+ * Each line is `key=value`; `key<<DELIMITER` starts a multi-line value that
+ * ends at a line containing only the delimiter. Later values win.
+ *
+ * @param text - Output file contents
+ * @returns Values by key
+ * @throws Error for malformed lines or unterminated multi-line values
+ *
+ * @example
+ * ```ts
+ * parseStepOutputs("tag=v1.2.0\nnotes<<EOF\nFixes\nEOF\n");
+ * // { tag: "v1.2.0", notes: "Fixes" }
+ * ```
+ */
+export function parseStepOutputs(text: string): Record<string, string> {
+	const outputs: Record<string, string> = {};
+	const lines = text.split(/\r?\n/);
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i] ?? "";
+		if (line.trim() === "") continue;
+
+		const heredoc = /^([\w-]+)<<(.+)$/.exec(line);
+		if (heredoc) {
+			const [, key = "", delimiter] = heredoc;
+			const end = lines.indexOf(delimiter ?? "", i + 1);
+			if (end === -1) {
+				throw new Error(
+					`Invalid ${OUTPUT_ENV_VAR} line ${i + 1}: missing closing "${delimiter}"`,
+				);
+			}
+			outputs[key] = lines.slice(i + 1, end).join("\n");
+			i = end;
+			continue;
+		}
+
+		const match = /^([\w-]+)=(.*)$/.exec(line);
+		if (!match) {
+			throw new Error(
+				`Invalid ${OUTPUT_ENV_VAR} line ${i + 1}: expected key=value, got "${line}"`,
+			);
+		}
+		const [, key = "", value = ""] = match;
+		outputs[key] = value;
+	}
+	return outputs;
+}
+
+/**
+ * Runs a function with a fresh output file and collects what it wrote.
+ *
+ * @param fn - Receives the output file path
+ * @returns The function's result and the parsed outputs
+ * @throws Error if the output file is malformed
+ */
+export async function collectStepOutputs<T>(
+	fn: (file: string) => Promise<T>,
+): Promise<{ readonly result: T; readonly outputs: StepOutputs }> {
+	const dir = mkdtempSync(join(tmpdir(), "ot-output-"));
+	const file = join(dir, "output");
+	try {
+		writeFileSync(file, "");
+		const result = await fn(file);
+		return { result, outputs: parseStepOutputs(readFileSync(file, "utf8")) };
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Lists the steps whose outputs a text reads.
+ *
+ * @param text - Text containing placeholders
+ * @returns Referenced step names
+ */
+export function getOutputReferences(text: string): Set<string> {
+	const names = new Set<string>();
+	for (const match of text.matchAll(OUTPUT_PATTERN)) {
+		names.add(match[1] ?? match[2] ?? match[3] ?? "");
+	}
+	return names;
+}
+
+/**
+ * Replaces `${{ steps.<name>.outputs.<key> }}` placeholders.
+ * Outputs a step did not publish resolve to an empty string.
+ *
+ * @param text - Text containing placeholders
+ * @param outputs - Outputs by step name
+ * @param quote - Shell-quote published values, for commands
+ * @returns Interpolated text
+ */
+export function interpolateStepOutputs(
+	text: string,
+	outputs: Readonly<Record<string, StepOutputs>>,
+	quote = false,
+): string {
+	return text.replace(
+		OUTPUT_PATTERN,
+		(_, dotted?: string, single?: string, double?: string, key = "") => {
+			const name = dotted ?? single ?? double ?? "";
+			const values = Object.hasOwn(outputs, name) ? outputs[name] : undefined;
+			if (!values || !Object.hasOwn(values, key)) return "";
+			const value = values[key] ?? "";
+			return quote ? quoteShellArg(value) : value;
+		},
+	);
+}
+
+/**
+ * Texts of a step that may read outputs.
+ */
+function getInterpolatedTexts(step: Step): string[] {
+	return [step.cmd ?? "", step.cwd ?? "", ...Object.values(step.env ?? {})];
+}
+
+/**
+ * Checks that every step whose outputs are read is listed in `dependsOn`.
+ *
+ * @param steps - Workflow steps
+ * @param groups - Matrix child step names by parent name; outputs are read
+ * from a child, since each child publishes its own
+ * @throws Error naming the first step that reads outputs it does not wait
+ * for, or outputs of a matrix parent
+ */
+export function checkOutputReferences(
+	steps: readonly Step[],
+	groups: ReadonlyMap<string, readonly string[]> = new Map(),
+): void {
+	for (const step of steps) {
+		const dependsOn = step.dependsOn?.flatMap((dep) => [
+			dep,
+			...(groups.get(dep) ?? []),
+		]);
+		for (const text of getInterpolatedTexts(step)) {
+			for (const name of getOutputReferences(text)) {
+				const children = groups.get(name);
+				if (children) {
+					throw new Error(
+						`Step "${step.name}": reads steps.${name}.outputs, but "${name}" is a matrix step; read one of its children, e.g. steps['${children[0]}'].outputs`,
+					);
+				}
+				if (!dependsOn?.includes(name)) {
+					throw new Error(
+						`Step "${step.name}": reads steps.${name}.outputs, so "${name}" must be listed in dependsOn`,
+					);
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Interpolates the outputs of earlier steps into a step.
+ *
+ * @param step - Step about to run
+ * @param outputs - Outputs by step name
+ * @returns The step with `cmd`, `cwd` and `env` values interpolated;
+ * values in `cmd` are shell-quoted
+ */
+export function applyStepOutputs(
+	step: Step,
+	outputs: Readonly<Record<string, StepOutputs>>,
+): Step {
+	const interpolate = (text: string) => interpolateStepOutputs(text, outputs);
+	return {
+		...step,
+		cmd:
+			step.cmd === undefined
+				? undefined
+				: interpolateStepOutputs(step.cmd, outputs, true),
+		cwd: step.cwd === undefined ? undefined : interpolate(step.cwd),
+		env:
+			step.env === undefined
+				? undefined
+				: Object.fromEntries(
+						Object.entries(step.env).map(([key, value]) => [
+							key,
+							interpolate(value),
+						]),
+					),
+	};
+}
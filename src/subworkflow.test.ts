@@ -0,0 +1,99 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: tests use ${{ params.* }} placeholders
+import { describe, expect, test } from "bun:test";
+import {
+	checkWorkflowReferences,
+	normalizeWorkflowRef,
+	resolveSubWorkflow,
+} from "./subworkflow";
+import type { Workflow } from "./types";
+
+const workflows: Record<string, Workflow> = {
+	ci: [
+		{ name: "lint", workflow: "lint" },
+		{ name: "build", workflow: { name: "build", params: { mode: "prod" } } },
+	],
+	lint: {
+		params: { fix: { type: "boolean", default: false } },
+		steps: [{ name: "biome", cmd: "biome check --fix=${{ params.fix }}" }],
+	},
+	build: {
+		params: { mode: { type: "enum", values: ["dev", "prod"], required: true } },
+		steps: [
+			{ name: "compile", cmd: "tsc", matrix: { target: ["es", "cjs"] } },
+			{ name: "bundle", cmd: "bun build --${{ params.mode }}" },
+		],
+	},
+};
+
+describe("normalizeWorkflowRef", () => {
+	test("accepts names and objects", () => {
+		expect(normalizeWorkflowRef("lint")).toEqual({ name: "lint", params: {} });
+		expect(
+			normalizeWorkflowRef({ name: "build", params: { shards: 4, ci: true } }),
+		).toEqual({ name: "build", params: { shards: "4", ci: "true" } });
+	});
+});
+
+describe("checkWorkflowReferences", () => {
+	test("returns reachable workflows", () => {
+		expect(checkWorkflowReferences(workflows, "ci")).toEqual(["lint", "build"]);
+		expect(checkWorkflowReferences(workflows, "lint")).toEqual([]);
+	});
+
+	test("detects cycles across workflows", () => {
+		expect(() =>
+			checkWorkflowReferences(
+				{
+					a: [{ name: "b", workflow: "b" }],
+					b: [{ name: "c", workflow: { name: "c" } }],
+					c: [{ name: "a", workflow: "a" }],
+				},
+				"a",
+			),
+		).toThrow("Circular workflow reference: a → b → c → a");
+	});
+
+	test("reports missing workflows", () => {
+		expect(() =>
+			checkWorkflowReferences({ a: [{ name: "x", workflow: "nope" }] }, "a"),
+		).toThrow('Step "x": workflow "nope" not found');
+	});
+});
+
+describe("resolveSubWorkflow", () => {
+	test("passes through declared params only", () => {
+		const sub = resolveSubWorkflow(
+			workflows,
+			normalizeWorkflowRef("lint"),
+			{ fix: "true", mode: "dev" },
+			[],
+		);
+		expect(sub.steps.map((s) => s.cmd)).toEqual(["biome check --fix=true"]);
+		expect(sub.params).toEqual({ fix: "true", mode: "dev" });
+	});
+
+	test("applies explicit params and expands matrices", () => {
+		const sub = resolveSubWorkflow(
+			workflows,
+			normalizeWorkflowRef({ name: "build", params: { mode: "prod" } }),
+			{ mode: "dev" },
+			[],
+		);
+		expect(sub.steps.map((s) => s.name)).toEqual([
+			"compile[target=es]",
+			"compile[target=cjs]",
+			"bundle",
+		]);
+		expect(sub.steps.at(-1)?.cmd).toBe("bun build --prod");
+		expect(sub.groups.get("compile")).toEqual([
+			"compile[target=es]",
+			"compile[target=cjs]",
+		]);
+	});
+
+	test("reports invalid params", () => {
+		expect(() =>
+			resolveSubWorkflow(workflows, normalizeWorkflowRef("build"), {}, []),
+		).toThrow("Missing required param");
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * Sub-workflow steps.
+ *
+ * A step with `workflow: "lint"` runs the `lint` workflow as a nested unit.
+ * Params the sub-workflow declares are passed through from the caller;
+ * `workflow: { name, params }` sets values explicitly.
+ */
+
+import { getSteps, getWorkflowParams } from "./config";
+import { resolveStepsWithDeps } from "./graph";
+import { getMatrixChildren } from "./matrix";
+import { resolveWorkflowSteps } from "./params";
+import type { Step, Workflow, WorkflowRef } from "./types";
+
+/**
+ * Normalized `workflow:` reference.
+ */
+export type ResolvedWorkflowRef = {
+	readonly name: string;
+	/** Explicit param values, as raw strings */
+	readonly params: Readonly<Record<string, string>>;
+};
+
+/**
+ * A sub-workflow ready to run.
+ */
+export type SubWorkflow = {
+	readonly workflow: Workflow;
+	/** Steps with params interpolated and matrices expanded */
+	readonly steps: readonly Step[];
+	/** Matrix child step names by parent name */
+	readonly groups: ReadonlyMap<string, readonly string[]>;
+	/** Params passed through to the sub-workflow's own `workflow:` steps */
+	readonly params: Readonly<Record<string, string>>;
+};
+
+/**
+ * Normalizes a step's `workflow:` reference.
+ *
+ * @param ref - String or object form
+ * @returns Workflow name and explicit params
+ */
+export function normalizeWorkflowRef(ref: WorkflowRef): ResolvedWorkflowRef {
+	if (typeof ref === "string") return { name: ref, params: {} };
+	return {
+		name: ref.name,
+		params: Object.fromEntries(
+			Object.entries(ref.params ?? {}).map(([key, value]) => [
+				key,
+				String(value),
+			]),
+		),
+	};
+}
+
+/**
+ * Checks the `workflow:` references reachable from a workflow.
+ *
+ * @param workflows - All workflows from the config
+ * @param root - Name of the workflow being run
+ * @returns Names of the workflows reachable through `workflow:` steps
+ * @throws Error for references to missing workflows or circular references
+ *
+ * @example
+ * ```ts
+ * // ci → lint → ci
+ * checkWorkflowReferences(workflows, "ci");
+ * // Error: Circular workflow reference: ci → lint → ci
+ * ```
+ */
+export function checkWorkflowReferences(
+	workflows: Readonly<Record<string, Workflow>>,
+	root: string,
+): string[] {
+	const reachable: string[] = [];
+	const checked = new Set<string>();
+	const visiting: string[] = [];
+
+	function visit(name: string): void {
+		const index = visiting.indexOf(name);
+		if (index !== -1) {
+			const cycle = [...visiting.slice(index), name].join(" → ");
+			throw new Error(`Circular workflow reference: ${cycle}`);
+		}
+		if (checked.has(name)) return;
+
+		const workflow = workflows[name];
+		if (!workflow) throw new Error(`Workflow "${name}" not found`);
+
+		visiting.push(name);
+		for (const step of getSteps(workflow)) {
+			if (step.workflow === undefined) continue;
+			const ref = normalizeWorkflowRef(step.workflow);
+			if (!Object.hasOwn(workflows, ref.name)) {
+				throw new Error(
+					`Step "${step.name}": workflow "${ref.name}" not found`,
+				);
+			}
+			visit(ref.name);
+		}
+		visiting.pop();
+
+		checked.add(name);
+		if (name !== root) reachable.push(name);
+	}
+
+	visit(root);
+	return reachable;
+}
+
+/**
+ * Resolves the workflow a `workflow:` step runs.
+ *
+ * @param workflows - All workflows from the config
+ * @param ref - The step's `workflow:` reference
+ * @param callerParams - Raw params of the caller; only those the
+ * sub-workflow declares are applied
+ * @param args - Extra arguments from after `--`
+ * @returns The sub-workflow with its resolved steps
+ * @throws Error if the workflow is missing or its params are invalid
+ */
+export function resolveSubWorkflow(
+	workflows: Readonly<Record<string, Workflow>>,
+	ref: ResolvedWorkflowRef,
+	callerParams: Readonly<Record<string, string>>,
+	args: readonly string[],
+): SubWorkflow {
+	const workflow = workflows[ref.name];
+	if (!workflow) throw new Error(`Workflow "${ref.name}" not found`);
+
+	const declared = getWorkflowParams(workflow) ?? {};
+	const passed = Object.fromEntries(
+		Object.entries(callerParams).filter(([key]) =>
+			Object.hasOwn(declared, key),
+		),
+	);
+	const { steps } = resolveWorkflowSteps(
+		workflow,
+		{ ...passed, ...ref.params },
+		args,
+	);
+
+	return {
+		workflow,
+		steps: resolveStepsWithDeps(
+			steps,
+			steps.map((s) => s.name),
+		),
+		groups: getMatrixChildren(steps),
+		params: { ...callerParams, ...ref.params },
+	};
+}
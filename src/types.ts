@@ -3,40 +3,78 @@ import {
 	ConfigSchema,
 	WorkflowSchema,
 	StepSchema,
+	BUILTIN_ACTION_KEYS,
+	BUILTIN_ACTION_SCHEMAS,
+	RESERVED_STEP_KEYS,
+	createConfigSchema,
 	BunActionSchema,
 	WorktreeCpActionSchema,
 	WorktreeHookSchema,
 	WorktreeConfigSchema,
+	CacheConfigSchema,
+	StepResourcesSchema,
+	RetrySchema,
+	MatrixSchema,
+	ParamSchema,
+	WorkflowRefSchema,
 } from "./schema";
 
 import type {
+	ActionSchemas,
 	Config,
+	ConfigInput,
 	Workflow,
 	Step,
 	BunAction,
 	WorktreeCpAction,
 	WorktreeHook,
 	WorktreeConfig,
+	CacheConfig,
+	StepResources,
+	RetryPolicy,
+	Matrix,
+	MatrixValue,
+	Param,
+	WorkflowRef,
 } from "./schema";
 
 export {
 	ConfigSchema,
 	WorkflowSchema,
 	StepSchema,
+	BUILTIN_ACTION_KEYS,
+	BUILTIN_ACTION_SCHEMAS,
+	RESERVED_STEP_KEYS,
+	createConfigSchema,
 	BunActionSchema,
 	WorktreeCpActionSchema,
 	WorktreeHookSchema,
 	WorktreeConfigSchema,
+	CacheConfigSchema,
+	StepResourcesSchema,
+	RetrySchema,
+	MatrixSchema,
+	ParamSchema,
+	WorkflowRefSchema,
 };
 
 export type {
+	ActionSchemas,
 	Config,
+	ConfigInput,
 	Workflow,
 	Step,
 	BunAction,
 	WorktreeCpAction,
 	WorktreeHook,
 	WorktreeConfig,
+	CacheConfig,
+	StepResources,
+	RetryPolicy,
+	Matrix,
+	MatrixValue,
+	Param,
+	WorkflowRef,
 };
 
 /**
@@ -48,10 +86,24 @@ export type WorktreeInfo = {
 	readonly isMain: boolean;
 };
 
+/**
+ * Task cache mode selected with `--cache`.
+ */
+export type CacheMode = "local" | "off" | "remote";
+
 /**
  * Status of a step during execution.
  */
-export type StepStatus = "done" | "failed" | "pending" | "running" | "skipped";
+export type StepStatus =
+	| "cached"
+	| "cancelled"
+	| "done"
+	| "failed"
+	| "pending"
+	| "running"
+	| "skipped"
+	| "timeout"
+	| "warning";
 
 /**
  * Mutable state for tracking step execution.
@@ -61,6 +113,16 @@ export type StepState = {
 	output: string;
 	status: StepStatus;
 	step: Step;
+	/** Cache key of the step, when caching is enabled */
+	hash?: string;
+	/** Timeout the step exceeded, in milliseconds */
+	timeout?: number;
+	/** Attempts made, when the step has a retry policy */
+	attempts?: number;
+	/** Workspace tasks that only passed after retrying */
+	flakyTasks?: readonly string[];
+	/** Named values the step wrote to `$OT_OUTPUT` */
+	outputs?: Readonly<Record<string, string>>;
 };
 
 /**
@@ -71,6 +133,20 @@ export type StepResult = {
 	readonly name: string;
 	readonly output: string;
 	readonly success: boolean;
+	readonly cached?: boolean;
+	readonly hash?: string;
+	/** True when the step was killed for exceeding its timeout */
+	readonly timedOut?: boolean;
+	/** Timeout the step exceeded, in milliseconds */
+	readonly timeout?: number;
+	/** True when the step was interrupted by cancelling the run */
+	readonly cancelled?: boolean;
+	/** Attempts made, when the step has a retry policy */
+	readonly attempts?: number;
+	/** Workspace tasks that only passed after retrying */
+	readonly flakyTasks?: readonly string[];
+	/** Named values the step wrote to `$OT_OUTPUT` */
+	readonly outputs?: Readonly<Record<string, string>>;
 };
 
 /**
@@ -100,6 +176,33 @@ export type RunContext = {
 	readonly gitRoot: string;
 	readonly isTTY: boolean;
 	readonly verbose: boolean;
+	/** Task cache, when caching is enabled */
+	readonly cache?: import("./cache/task-cache").TaskCache;
+	/** Workspace packages that `bun` steps are restricted to */
+	readonly packageSelection?: ReadonlySet<string>;
+	/** Run-wide slot pool shared by steps and workspace tasks */
+	readonly pool?: import("./scheduler").ResourcePool;
 	/** Optional progress printer for centralized display */
 	readonly printer?: import("./progress-printer").ProgressPrinter;
+	/** Aborted when the run is cancelled (e.g. Ctrl-C) */
+	readonly signal?: AbortSignal;
+	/** Workflow-level environment inherited by every step */
+	readonly env?: Readonly<Record<string, string>>;
+	/** What `workflow:` steps need to run their sub-workflows */
+	readonly subWorkflows?: SubWorkflowContext;
+};
+
+/**
+ * Run settings `workflow:` steps pass on to their sub-workflows.
+ */
+export type SubWorkflowContext = {
+	readonly workflows: Readonly<Record<string, Workflow>>;
+	/** Raw `--param` values, applied to sub-workflows that declare them */
+	readonly params: Readonly<Record<string, string>>;
+	/** Arguments after `--` */
+	readonly args: readonly string[];
+	readonly currentBranch: string;
+	readonly inWorktree: boolean;
+	/** Changed files for `paths` filters and `changed()` */
+	readonly changedFiles?: readonly string[];
 };
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { findCycles, lintConfig, lintShadowedConfig } from "./validate";
+
+describe("findCycles", () => {
+	test("reports each cycle once", () => {
+		expect(
+			findCycles(
+				new Map([
+					["a", ["b"]],
+					["b", ["a", "c"]],
+					["c", []],
+					["d", ["d", "missing"]],
+				]),
+			),
+		).toEqual([
+			["a", "b", "a"],
+			["d", "d"],
+		]);
+	});
+});
+
+describe("lintConfig", () => {
+	const rules = (problems: { readonly rule: string }[]) =>
+		problems.map((p) => p.rule);
+
+	test("accepts a valid config", () => {
+		expect(
+			lintConfig({
+				workflows: {
+					build: [
+						{ name: "install", cmd: "bun install" },
+						{ name: "test", cmd: "bun test", dependsOn: ["install"] },
+					],
+					ci: { steps: [{ name: "build", workflow: "build" }] },
+				},
+			}),
+		).toEqual([]);
+	});
+
+	test("reports step problems with their config path", () => {
+		const problems = lintConfig({
+			workflows: {
+				build: {
+					steps: [
+						{ name: "a", cmd: "a" },
+						{ name: "b", cmd: "b", dependsOn: ["c"] },
+						{ name: "a", cmd: "a", branches: ["!worktree:*"] },
+					],
+				},
+			},
+		});
+		expect(problems).toContainEqual({
+			severity: "error",
+			rule: "unknown-dependency",
+			message: 'Step "b" depends on unknown step "c"',
+			path: ["workflows", "build", "steps", "b", "dependsOn", "0"],
+		});
+		// Later duplicates are located by index
+		expect(problems).toContainEqual({
+			severity: "error",
+			rule: "duplicate-step",
+			message: 'Duplicate step name "a"',
+			path: ["workflows", "build", "steps", "2"],
+		});
+		expect(problems).toContainEqual({
+			severity: "error",
+			rule: "invalid-branch-pattern",
+			message: expect.any(String),
+			path: ["workflows", "build", "steps", "2", "branches", "0"],
+		});
+		expect(rules(problems)).toEqual([
+			"duplicate-step",
+			"invalid-branch-pattern",
+			"unknown-dependency",
+		]);
+	});
+
+	test("reports cycles, unknown workflows and invalid conditions", () => {
+		const problems = lintConfig({
+			workflows: {
+				a: [
+					{ name: "x", cmd: "x", dependsOn: ["y"] },
+					{ name: "y", cmd: "y", dependsOn: ["x"], if: "steps.z.failed" },
+					{ name: "w", workflow: "b" },
+				],
+				b: [{ name: "v", workflow: { name: "a" } }],
+				c: [{ name: "u", workflow: "missing" }],
+			},
+		});
+		expect(rules(problems)).toEqual([
+			"invalid-condition",
+			"dependency-cycle",
+			"unknown-workflow",
+			"workflow-cycle",
+		]);
+		expect(problems.map((p) => p.message)).toContain(
+			"Circular workflow reference: a → b → a",
+		);
+	});
+
+	test("checks bun scripts against workspace packages", () => {
+		const problems = lintConfig(
+			{
+				workflows: {
+					build: [
+						{ name: "build", bun: { script: "build" } },
+						{ name: "lint", bun: { script: "lint" } },
+					],
+				},
+			},
+			{
+				packages: [
+					{
+						name: "a",
+						path: "a",
+						scripts: { build: "tsc" },
+						workspaceDeps: [],
+					},
+				],
+			},
+		);
+		expect(problems.map((p) => p.path.join("."))).toEqual([
+			"workflows.build.lint.bun.script",
+		]);
+	});
+
+	test("warns about jobs named like a command", () => {
+		expect(
+			lintConfig({ workflows: { cache: [{ name: "warm", cmd: "true" }] } }),
+		).toEqual([
+			{
+				severity: "warning",
+				rule: "command-name",
+				message:
+					'Workflow "cache" is shadowed by `ot cache`; run it with --job cache',
+				path: ["workflows", "cache"],
+			},
+		]);
+	});
+});
+
+describe("lintShadowedConfig", () => {
+	test("warns about every workflow", () => {
+		expect(
+			lintShadowedConfig({ workflows: { old: [] } }, "workflow.json"),
+		).toEqual([
+			{
+				severity: "warning",
+				rule: "unused-workflow",
+				message: 'Workflow "old" is unused: workflow.json is loaded instead',
+				path: ["workflows", "old"],
+			},
+		]);
+	});
+});
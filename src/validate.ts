@@ -0,0 +1,252 @@
+/**
+ * Config validation beyond the schema.
+ *
+ * Finds mistakes that otherwise only surface when a workflow runs, or never:
+ * duplicate step names, unknown or circular `dependsOn` and `workflow`
+ * references, invalid `if` conditions and branch patterns, and `bun` scripts
+ * no workspace package defines.
+ */
+
+import { checkBranchPattern } from "./branch";
+import { parseStepConditions } from "./condition";
+import { getSteps } from "./config";
+import type { WorkspacePackage } from "./npm-workspace";
+import { normalizeWorkflowRef } from "./subworkflow";
+import type { Config, Step } from "./types";
+
+/**
+ * Errors make `ot validate` fail; warnings are only reported.
+ */
+export type ProblemSeverity = "error" | "warning";
+
+/**
+ * A problem found in a config.
+ */
+export type ConfigProblem = {
+	readonly severity: ProblemSeverity;
+	/** Identifier of the check, e.g. `unknown-dependency` */
+	readonly rule: string;
+	readonly message: string;
+	/** Config path with steps identified by name, as in config origins */
+	readonly path: readonly string[];
+};
+
+/**
+ * Options for {@link lintConfig}.
+ */
+export type LintConfigOptions = {
+	/** Workspace packages `bun` scripts are checked against; omit to skip */
+	readonly packages?: readonly WorkspacePackage[];
+};
+
+/**
+ * Finds the cycles in a dependency graph.
+ *
+ * @param edges - Dependencies by node; unknown nodes are ignored
+ * @returns Each cycle once, as a path that starts and ends on the same node
+ */
+export function findCycles(
+	edges: ReadonlyMap<string, readonly string[]>,
+): string[][] {
+	const cycles: string[][] = [];
+	const done = new Set<string>();
+	const stack: string[] = [];
+
+	const visit = (node: string): void => {
+		const index = stack.indexOf(node);
+		if (index !== -1) {
+			cycles.push([...stack.slice(index), node]);
+			return;
+		}
+		if (done.has(node) || !edges.has(node)) return;
+		stack.push(node);
+		for (const next of edges.get(node) ?? []) visit(next);
+		stack.pop();
+		done.add(node);
+	};
+
+	for (const node of edges.keys()) visit(node);
+	return cycles;
+}
+
+/**
+ * Checks the steps of one workflow.
+ */
+function lintSteps(
+	steps: readonly Step[],
+	stepsPath: readonly string[],
+	workflows: Config["workflows"],
+	scripts: ReadonlySet<string> | undefined,
+): ConfigProblem[] {
+	const problems: ConfigProblem[] = [];
+	const report = (
+		rule: string,
+		message: string,
+		path: readonly string[],
+	): void => {
+		problems.push({ severity: "error", rule, message, path });
+	};
+
+	const names = new Set<string>();
+	for (const [index, step] of steps.entries()) {
+		// A name finds the first step with it, so later duplicates use their index
+		const isDuplicate = names.has(step.name);
+		const path = [...stepsPath, isDuplicate ? String(index) : step.name];
+		if (isDuplicate) {
+			report("duplicate-step", `Duplicate step name "${step.name}"`, path);
+		}
+		names.add(step.name);
+
+		if (step.workflow !== undefined) {
+			const { name } = normalizeWorkflowRef(step.workflow);
+			if (!workflows[name]) {
+				report(
+					"unknown-workflow",
+					`Step "${step.name}" runs unknown workflow "${name}"`,
+					[...path, "workflow"],
+				);
+			}
+		}
+
+		if (scripts && step.bun && !scripts.has(step.bun.script)) {
+			report(
+				"unknown-script",
+				`Step "${step.name}" runs script "${step.bun.script}", which no workspace package defines`,
+				[...path, "bun", "script"],
+			);
+		}
+
+		step.branches?.forEach((pattern, index) => {
+			const problem = checkBranchPattern(pattern);
+			if (problem) {
+				report(
+					"invalid-branch-pattern",
+					`Step "${step.name}": branch pattern "${pattern}": ${problem}`,
+					[...path, "branches", String(index)],
+				);
+			}
+		});
+
+		try {
+			parseStepConditions([step]);
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			report("invalid-condition", message, [...path, "if"]);
+		}
+	}
+
+	for (const step of steps) {
+		step.dependsOn?.forEach((dep, index) => {
+			if (!names.has(dep)) {
+				report(
+					"unknown-dependency",
+					`Step "${step.name}" depends on unknown step "${dep}"`,
+					[...stepsPath, step.name, "dependsOn", String(index)],
+				);
+			}
+		});
+	}
+
+	const edges = new Map(steps.map((s) => [s.name, s.dependsOn ?? []]));
+	for (const cycle of findCycles(edges)) {
+		const [first = ""] = cycle;
+		report("dependency-cycle", `Circular dependency: ${cycle.join(" → ")}`, [
+			...stepsPath,
+			first,
+			"dependsOn",
+		]);
+	}
+
+	return problems;
+}
+
+/**
+ * `ot` subcommands; a job with one of these names only runs with `--job`.
+ */
+const COMMAND_NAMES: readonly string[] = [
+	"wt",
+	"cache",
+	"config",
+	"validate",
+	"schema",
+];
+
+/**
+ * Checks a loaded config for problems the schema cannot express.
+ *
+ * @param config - Loaded config, after `extends` and `include`
+ * @param options - Workspace packages for the `bun` script check
+ * @returns Problems in config order
+ */
+export function lintConfig(
+	config: Config,
+	options: LintConfigOptions = {},
+): ConfigProblem[] {
+	const scripts = options.packages
+		? new Set(options.packages.flatMap((pkg) => Object.keys(pkg.scripts)))
+		: undefined;
+
+	const problems = Object.entries(config.workflows).flatMap(
+		([name, workflow]) =>
+			lintSteps(
+				getSteps(workflow),
+				Array.isArray(workflow)
+					? ["workflows", name]
+					: ["workflows", name, "steps"],
+				config.workflows,
+				scripts,
+			),
+	);
+
+	const edges = new Map(
+		Object.entries(config.workflows).map(([name, workflow]) => [
+			name,
+			getSteps(workflow).flatMap((step) =>
+				step.workflow === undefined
+					? []
+					: [normalizeWorkflowRef(step.workflow).name],
+			),
+		]),
+	);
+	for (const cycle of findCycles(edges)) {
+		const [first = ""] = cycle;
+		problems.push({
+			severity: "error",
+			rule: "workflow-cycle",
+			message: `Circular workflow reference: ${cycle.join(" → ")}`,
+			path: ["workflows", first],
+		});
+	}
+
+	for (const name of Object.keys(config.workflows)) {
+		if (COMMAND_NAMES.includes(name)) {
+			problems.push({
+				severity: "warning",
+				rule: "command-name",
+				message: `Workflow "${name}" is shadowed by \`ot ${name}\`; run it with --job ${name}`,
+				path: ["workflows", name],
+			});
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Reports the workflows of a config that discovery never loads.
+ *
+ * @param config - Config of the shadowed file
+ * @param loadedFile - Display name of the config that is loaded instead
+ * @returns A warning per workflow
+ */
+export function lintShadowedConfig(
+	config: Config,
+	loadedFile: string,
+): ConfigProblem[] {
+	return Object.keys(config.workflows).map((name) => ({
+		severity: "warning",
+		rule: "unused-workflow",
+		message: `Workflow "${name}" is unused: ${loadedFile} is loaded instead`,
+		path: ["workflows", name],
+	}));
+}